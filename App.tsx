@@ -1,114 +1,365 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { FileUploader } from './components/FileUploader';
 import { TranslationViewer } from './components/TranslationViewer';
 import { SettingsModal } from './components/SettingsModal';
-import { loadPdf, renderPageToImage, getTotalPages, extractPageText } from './services/pdfService';
+import { JobControls } from './components/JobControls';
+import { RecentDocuments } from './components/RecentDocuments';
+import { PageSelector } from './components/PageSelector';
+import { JobReport } from './components/JobReport';
+import { ProfilePicker } from './components/ProfilePicker';
+import { ThrottleIndicator } from './components/ThrottleIndicator';
+import { loadPdf, renderPageToImage, renderPageStrips, getTotalPages, extractPageText, inspectPageContent } from './services/pdfService';
+import { routePage } from './services/pageRouting';
+import { chooseTileCount, tileBands } from './services/pageTiling';
 import { translatePageContent } from './services/aiService';
-import { AppState, TranslatedPage, ApiConfig } from './types';
+import { canFallBack } from './services/providerRequest';
+import { configInput, describeConfigProblem, getProvider, INPUT_LABELS } from './services/providers';
+import { ACCENT_STYLES } from './components/providerStyles';
+import { getLanguage } from './services/languages';
+import { runPipeline } from './services/scheduler';
+import { buildFallbackChain, deleteProfile, duplicateProfile, getActiveProfile, JobProfile, loadProfiles, saveProfiles } from './services/profiles';
+import { combineUsage, computeStats, createUsageMeter, estimateRemaining, formatDuration, pageUsage } from './services/usage';
+import { createJobController, isAbortError, JobController, JobState } from './services/jobController';
+import { subscribeThrottling } from './services/rateLimiter';
+import { fingerprintFile, createSession, savePages, listSessions, loadSessionPages, loadSessionFile, deleteSession } from './services/sessionStore';
+import { AppState, TranslatedPage, ApiConfig, TranslationSession, PageText, PageRoute, PageProfile, PageTile, PageUsage, ThrottleNotice, ConfigProfile, ProfileStore } from './types';
 import { Languages, ShieldCheck, Zap, Settings } from 'lucide-react';
 
+interface PreparedPage {
+  imageBase64: string;
+  textData: PageText | null;
+  tiles: PageTile[] | null; // Strips to translate instead of the whole image, for dense pages
+  config: ApiConfig; // The job's config, or the routed provider's in auto mode
+}
+
+// Streamed output arrives token by token; the viewer only needs a few updates per second
+const PARTIAL_UPDATE_INTERVAL = 150;
+
+// Calls `fn` with the latest value at most once per `interval`
+const throttleLatest = <T,>(fn: (value: T) => void, interval: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let latest: T;
+  return {
+    call: (value: T) => {
+      latest = value;
+      timer ??= setTimeout(() => {
+        timer = undefined;
+        fn(latest);
+      }, interval);
+    },
+    cancel: () => clearTimeout(timer)
+  };
+};
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [translatedPages, setTranslatedPages] = useState<TranslatedPage[]>([]);
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // A loaded PDF waiting for its page selection
+  const [pendingFile, setPendingFile] = useState<{ file: File; fingerprint: string } | null>(null);
+  // Timing of the running job, for the ETA, and the pages of the last job, for its report
+  const [jobClock, setJobClock] = useState<{ startedAt: number; finished: number; total: number } | null>(null);
+  const [jobReport, setJobReport] = useState<{ indices: number[]; totalTime: number } | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // Endpoints whose requests are currently waiting for a rate limit
+  const [throttling, setThrottling] = useState<ThrottleNotice[]>([]);
+  useEffect(() => subscribeThrottling(setThrottling), []);
 
-  // Default Configuration
-  const [apiConfig, setApiConfig] = useState<ApiConfig>(() => {
-    const saved = localStorage.getItem('pdf_translate_config');
-    if (saved) {
-       const parsed = JSON.parse(saved);
-       // Backwards compatibility for configs without 'provider'
-       if (!parsed.provider) parsed.provider = 'openai';
-       return parsed;
-    }
-    return {
-      provider: 'openai',
-      baseUrl: 'https://api.openai.com/v1',
-      apiKey: '',
-      modelName: 'gpt-4o'
-    };
-  });
+  // Settings profiles; new jobs run on the active one, with its fallbacks for pages that fail
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfiles);
+  const activeProfile = getActiveProfile(profileStore);
+  const apiConfig = activeProfile.config;
 
-  const handleSaveSettings = (newConfig: ApiConfig) => {
-    setApiConfig(newConfig);
-    localStorage.setItem('pdf_translate_config', JSON.stringify(newConfig));
+  const updateProfiles = (store: ProfileStore) => {
+    setProfileStore(store);
+    saveProfiles(store);
   };
 
-  const processPDF = useCallback(async (file: File) => {
-    // Validation: OpenAI needs key, DeepLX might not (optional)
-    if (apiConfig.provider === 'openai' && !apiConfig.apiKey) {
-      alert("Please configure your API Key in settings.");
+  const handleSaveProfile = (profile: ConfigProfile) => {
+    updateProfiles({ ...profileStore, profiles: profileStore.profiles.map(p => (p.id === profile.id ? profile : p)) });
+  };
+
+  // New profiles start as a copy of the active one, opened in the settings to be renamed and edited
+  const handleNewProfile = () => {
+    const profile = duplicateProfile(profileStore, activeProfile);
+    updateProfiles({ activeId: profile.id, profiles: [...profileStore.profiles, profile] });
+    setIsSettingsOpen(true);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    updateProfiles(deleteProfile(profileStore, id));
+  };
+
+  // Keep the loaded document around so failed pages can be retried without re-uploading
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
+  const jobRef = useRef<JobController | null>(null);
+  const [jobState, setJobState] = useState<JobState | 'idle'>('idle');
+
+  // Persisted session for the open document, plus the pages already written to IndexedDB
+  const [session, setSession] = useState<TranslationSession | null>(null);
+  const [recentSessions, setRecentSessions] = useState<TranslationSession[]>([]);
+  const savedPagesRef = useRef(new WeakSet<TranslatedPage>());
+
+  const validateConfig = useCallback((): boolean => {
+    const problem = describeConfigProblem(apiConfig);
+    if (problem) {
+      alert(problem);
       setIsSettingsOpen(true);
-      return;
+      return false;
     }
-    // DeepLX needs at least a URL
-    if (apiConfig.provider === 'deeplx' && !apiConfig.baseUrl) {
-      alert("Please configure your DeepLX Endpoint URL.");
-      setIsSettingsOpen(true);
+    return true;
+  }, [apiConfig]);
+
+  const updatePage = (index: number, patch: Partial<TranslatedPage>) => {
+    setTranslatedPages(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], ...patch };
+      return next;
+    });
+  };
+
+  // Picks the provider in auto routing mode, renders the page (unless we already have an image,
+  // e.g. on retry), extracts text for text-mode providers and cuts dense pages into strips
+  const preparePage = async (pdf: PDFDocumentProxy, index: number, existingImage: string, jobConfig: ApiConfig): Promise<PreparedPage> => {
+    // 1. In auto mode, route by the page's text layer and images
+    let config = jobConfig;
+    let route: PageRoute | undefined;
+    let profile: PageProfile | null = null;
+    if (jobConfig.routingMode === 'auto') {
+      profile = await inspectPageContent(pdf, index + 1);
+      ({ route, config } = routePage(profile, jobConfig));
+    }
+
+    // 2. Always render Image for the "Original" view, at the resolution the provider reads
+    const imageBase64 = existingImage || await renderPageToImage(pdf, index + 1, config.render);
+
+    // 3. Extract text only for providers that read the text layer (including vision in hybrid mode)
+    let textData: PageText | null = null;
+    if (configInput(config) !== 'image') {
+       textData = await extractPageText(pdf, index + 1);
+    }
+
+    // 4. Vision providers with tiling on get dense or oversized pages as overlapping strips
+    let tiles: PageTile[] | null = null;
+    if (configInput(config) !== 'text' && config.render.tiling === 'auto') {
+      const count = chooseTileCount(profile || await inspectPageContent(pdf, index + 1));
+      if (count > 1) {
+        const bands = tileBands(count);
+        const images = await renderPageStrips(pdf, index + 1, bands, config.render);
+        tiles = bands.map((band, i) => ({ image: images[i], index: i, count, top: band.top, bottom: band.bottom }));
+      }
+    }
+
+    updatePage(index, { originalImage: imageBase64, route, tileCount: tiles?.length });
+    return { imageBase64, textData, tiles, config };
+  };
+
+  // Translates a prepared page on the first profile of the chain. A page that still fails after the
+  // provider's retries, with an error another provider may not have (rate limit, server error,
+  // filtered or empty answer), is prepared and translated again on the next profile.
+  const translatePage = async (pdf: PDFDocumentProxy, index: number, first: PreparedPage, job: JobController, chain: JobProfile[]) => {
+    try {
+      await job.waitIfPaused();
+    } catch {
+      updatePage(index, { status: 'cancelled' });
       return;
     }
+    updatePage(index, { status: 'translating', errorMessage: undefined });
+
+    // Usage is recorded for failed attempts too: their requests may still be billed
+    let spent: PageUsage | undefined;
+    for (let step = 0; step < chain.length; step++) {
+      const profile = chain[step];
+      const isLast = step === chain.length - 1;
+
+      // 4. Translate with AI Service, showing the output as it streams in
+      const partial = throttleLatest((partialHtml: string) => updatePage(index, { partialHtml }), PARTIAL_UPDATE_INTERVAL);
+      const meter = createUsageMeter();
+      const startedAt = Date.now();
+      let config = profile.config;
+      const usage = () => combineUsage(spent, pageUsage(meter, Date.now() - startedAt, config));
+      try {
+        // Fallback profiles may route, render or tile the page differently
+        const prepared = step === 0 ? first : await preparePage(pdf, index, '', profile.config);
+        config = prepared.config;
+        const translation = await translatePageContent(
+          prepared.imageBase64, prepared.textData, prepared.tiles, prepared.config,
+          { signal: job.signal, meter, onPartialHtml: partial.call }
+        );
+        partial.cancel();
+        updatePage(index, {
+          partialHtml: undefined,
+          usage: translation.fromCache ? spent : usage(),
+          translatedHtml: translation.html,
+          segments: translation.segments,
+          fromCache: translation.fromCache,
+          incomplete: translation.incomplete,
+          profile: profile.name,
+          status: 'completed'
+        });
+        return;
+      } catch (pageError) {
+        partial.cancel();
+        if (isAbortError(pageError)) {
+          updatePage(index, { status: 'cancelled', partialHtml: undefined, usage: usage() });
+          return;
+        }
+        if (!isLast && canFallBack(pageError)) {
+          console.warn(`Page ${index + 1} failed on profile "${profile.name}", trying "${chain[step + 1].name}"`, pageError);
+          spent = usage();
+          updatePage(index, { partialHtml: undefined, usage: spent });
+          continue;
+        }
+        updatePage(index, {
+          status: 'error',
+          partialHtml: undefined,
+          usage: usage(),
+          profile: profile.name,
+          errorMessage: pageError instanceof Error ? pageError.message : 'Unknown error'
+        });
+      }
+    }
+  };
+
+  // Rendering runs ahead of translation; up to `concurrency` pages are translated at once.
+  // The job can be paused (no new pages start) or cancelled (in-flight requests are aborted).
+  // Resolves to false when the user left the document while the job ran, so callers leave the screen alone.
+  const runPages = async (pdf: PDFDocumentProxy, indices: number[], existingImages: string[], config: ApiConfig): Promise<boolean> => {
+    const job = createJobController();
+    jobRef.current = job;
+    setJobState(job.getState());
+    const unsubscribe = job.subscribe(setJobState);
+    const startedAt = Date.now();
+    setJobClock({ startedAt, finished: 0, total: indices.length });
+    const chain = buildFallbackChain(profileStore, config);
+    let isCurrent = false;
+
+    try {
+      await runPipeline(
+        indices,
+        async index => {
+          await job.waitIfPaused();
+          return preparePage(pdf, index, existingImages[index] || '', config);
+        },
+        (index, prepared) => translatePage(pdf, index, prepared, job, chain),
+        {
+          concurrency: config.concurrency,
+          onItemDone: () => {
+            setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+            setJobClock(prev => prev && { ...prev, finished: prev.finished + 1 });
+          }
+        }
+      );
+    } catch (error) {
+      // A reset destroys the PDF under the pipeline; whatever that breaks is of no interest anymore
+      if (!isAbortError(error) && jobRef.current === job) throw error;
+    } finally {
+      unsubscribe();
+      // A reset clears jobRef: the job was left behind with its document
+      isCurrent = jobRef.current === job;
+      if (isCurrent && job.getState() === 'cancelled') {
+        // Pages that never started keep a distinct status so they can be resumed later
+        const selected = new Set(indices);
+        setTranslatedPages(prev => prev.map((page, i) =>
+          selected.has(i) && page.status === 'pending' ? { ...page, status: 'cancelled' } : page
+        ));
+      }
+      if (isCurrent) {
+        jobRef.current = null;
+        setJobState('idle');
+        // Retries and resumed pages are added to the document's report rather than replacing it.
+        // It opens by itself after multi-page jobs; a single retried page only updates it.
+        const elapsed = Date.now() - startedAt;
+        setJobClock(null);
+        setJobReport(prev => prev
+          ? { indices: Array.from(new Set([...prev.indices, ...indices])).sort((a, b) => a - b), totalTime: prev.totalTime + elapsed }
+          : { indices, totalTime: elapsed });
+        if (indices.length > 1) setIsReportOpen(true);
+      }
+    }
+    return isCurrent;
+  };
+
+  const reportPages = useMemo(
+    () => (jobReport ? jobReport.indices.map(index => translatedPages[index]).filter(Boolean) : []),
+    [jobReport, translatedPages]
+  );
+  const reportStats = useMemo(
+    () => (jobReport ? computeStats(reportPages, jobReport.totalTime) : null),
+    [jobReport, reportPages]
+  );
+
+  // The ETA on the progress screen counts down between finished pages
+  useEffect(() => {
+    if (!jobClock) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [jobClock !== null]);
+  const remainingTime = jobClock ? estimateRemaining(now - jobClock.startedAt, jobClock.finished, jobClock.total) : null;
+
+  // A document keeps the languages it was started with, even if the settings change afterwards
+  const documentConfig: ApiConfig = session
+    ? { ...apiConfig, sourceLang: session.config.sourceLang, targetLang: session.config.targetLang }
+    : apiConfig;
+
+  // Loads the PDF and shows the page picker; translation starts from there
+  const processPDF = useCallback(async (file: File) => {
+    if (!validateConfig()) return;
 
     setAppState(AppState.PROCESSING);
+    setProgress({ current: 0, total: 0 });
     setTranslatedPages([]);
+    setSession(null);
     
     try {
-      const pdf = await loadPdf(file);
+      // Fingerprint before pdf.js takes ownership of the file's bytes
+      const fingerprint = await fingerprintFile(file);
+      pdfRef.current?.destroy();
+      pdfRef.current = await loadPdf(file);
+      setPendingFile({ file, fingerprint });
+      setAppState(AppState.SELECTING);
+    } catch (error) {
+      console.error("Processing Error", error);
+      setAppState(AppState.ERROR);
+      alert("An error occurred while processing the PDF.");
+    }
+  }, [validateConfig]);
+
+  // Translates the selected pages. The others are kept as 'skipped' and can be translated later from the viewer.
+  const startTranslation = async (selectedIndices: number[]) => {
+    const pdf = pdfRef.current;
+    if (!pdf || !pendingFile || !validateConfig()) return;
+    const { file, fingerprint } = pendingFile;
+
+    setPendingFile(null);
+    setAppState(AppState.PROCESSING);
+
+    try {
       const totalPages = getTotalPages(pdf);
-      setProgress({ current: 0, total: totalPages });
+      setProgress({ current: 0, total: selectedIndices.length });
+
+      // Persistence is best effort: private browsing or a full disk shouldn't block translation
+      const newSession = await createSession(file, fingerprint, totalPages, selectedIndices.length, apiConfig).catch(error => {
+        console.warn("Could not save session", error);
+        return null;
+      });
+      setSession(newSession);
+      setJobReport(null);
 
       // Initialize pages array
+      const selected = new Set(selectedIndices);
       const initialPages: TranslatedPage[] = Array.from({ length: totalPages }, (_, i) => ({
         pageNumber: i + 1,
         originalImage: '',
         translatedHtml: '',
-        status: 'pending'
+        status: selected.has(i) ? 'pending' : 'skipped'
       }));
       setTranslatedPages(initialPages);
       
-      for (let i = 0; i < totalPages; i++) {
-        // 1. Always render Image for the "Original" view
-        const imageBase64 = await renderPageToImage(pdf, i + 1);
-        
-        // 2. Extract text ONLY if using DeepLX (Text Mode)
-        let textData: string | null = null;
-        if (apiConfig.provider === 'deeplx') {
-           textData = await extractPageText(pdf, i + 1);
-        }
-        
-        setTranslatedPages(prev => {
-          const next = [...prev];
-          next[i] = { ...next[i], originalImage: imageBase64, status: 'translating' };
-          return next;
-        });
-
-        // 3. Translate with AI Service
-        try {
-          const translation = await translatePageContent(imageBase64, textData, apiConfig);
-
-          setTranslatedPages(prev => {
-            const next = [...prev];
-            next[i] = { 
-              ...next[i], 
-              translatedHtml: translation, 
-              status: 'completed' 
-            };
-            return next;
-          });
-        } catch (pageError) {
-           setTranslatedPages(prev => {
-            const next = [...prev];
-            next[i] = { 
-              ...next[i], 
-              status: 'error',
-              errorMessage: pageError instanceof Error ? pageError.message : 'Unknown error'
-            };
-            return next;
-          });
-        }
-        
-        setProgress(prev => ({ ...prev, current: i + 1 }));
-      }
+      if (!await runPages(pdf, selectedIndices, [], apiConfig)) return;
 
       setAppState(AppState.COMPLETED);
 
@@ -117,30 +368,165 @@ const App: React.FC = () => {
       setAppState(AppState.ERROR);
       alert("An error occurred while processing the PDF.");
     }
-  }, [apiConfig]);
+  };
+
+  // Skipped pages are never rendered by the pipeline, so the viewer asks for their original on demand
+  const renderingOriginals = useRef(new Set<number>());
+  const renderOriginal = async (index: number) => {
+    const pdf = pdfRef.current;
+    if (!pdf || renderingOriginals.current.has(index)) return;
+    renderingOriginals.current.add(index);
+    try {
+      updatePage(index, { originalImage: await renderPageToImage(pdf, index + 1, apiConfig.render) });
+    } catch (error) {
+      console.warn(`Could not render page ${index + 1}`, error);
+    } finally {
+      renderingOriginals.current.delete(index);
+    }
+  };
+
+  // Reopens a saved session in the viewer, or continues it from the first page that isn't completed
+  const openSession = async (saved: TranslationSession, continueTranslation: boolean) => {
+    try {
+      const pages = await loadSessionPages(saved);
+      pages.forEach(page => savedPagesRef.current.add(page));
+      const config: ApiConfig = { ...apiConfig, sourceLang: saved.config.sourceLang, targetLang: saved.config.targetLang };
+
+      // The stored PDF lets us retry or continue without asking for the file again
+      const file = await loadSessionFile(saved.fingerprint);
+      const pdf = file ? await loadPdf(file) : null;
+      pdfRef.current = pdf;
+
+      setSession(saved);
+      setJobReport(null);
+      setTranslatedPages(pages);
+
+      const remaining = pages
+        .map((page, index) => (page.status !== 'completed' && page.status !== 'skipped' ? index : -1))
+        .filter(index => index >= 0);
+
+      if (!continueTranslation || !pdf || remaining.length === 0 || !validateConfig()) {
+        setAppState(AppState.COMPLETED);
+        return;
+      }
+
+      setAppState(AppState.PROCESSING);
+      const skipped = pages.filter(page => page.status === 'skipped').length;
+      setProgress({ current: pages.length - skipped - remaining.length, total: pages.length - skipped });
+      if (!await runPages(pdf, remaining, pages.map(page => page.originalImage), config)) return;
+      setAppState(AppState.COMPLETED);
+    } catch (error) {
+      console.error("Session Error", error);
+      setAppState(AppState.ERROR);
+      alert("Could not open the saved translation.");
+    }
+  };
+
+  const handleDeleteSession = async (saved: TranslationSession) => {
+    await deleteSession(saved);
+    setRecentSessions(prev => prev.filter(s => s.id !== saved.id));
+  };
+
+  // Re-runs translation for the given pages with the current settings, reusing their rendered images
+  const retryPages = async (indices: number[]) => {
+    const pdf = pdfRef.current;
+    if (!pdf || indices.length === 0 || jobRef.current) return;
+    if (!validateConfig()) return;
+
+    try {
+      await runPages(pdf, indices, translatedPages.map(page => page.originalImage), documentConfig);
+    } catch (error) {
+      console.error("Retry Error", error);
+      alert("An error occurred while retrying the selected pages.");
+    }
+  };
+
+  const handleReset = () => {
+    // Stop spending API credits on a document we're leaving. Dropping the job tells runPages
+    // that its caller should not move on to the viewer when it unwinds.
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setJobState('idle');
+    pdfRef.current?.destroy();
+    pdfRef.current = null;
+    setPendingFile(null);
+    setSession(null);
+    setJobClock(null);
+    setJobReport(null);
+    setIsReportOpen(false);
+    setAppState(AppState.IDLE);
+  };
+
+  const pageIndicesWithStatus = (statuses: TranslatedPage['status'][]) => {
+    return translatedPages
+      .map((page, index) => (statuses.includes(page.status) ? index : -1))
+      .filter(index => index >= 0);
+  };
+
+  const handleRetryFailed = () => retryPages(pageIndicesWithStatus(['error']));
+  const handleResumeCancelled = () => retryPages(pageIndicesWithStatus(['cancelled', 'pending']));
+
+  // Save every page that changed since the last write. In-flight pages are saved once they settle.
+  useEffect(() => {
+    if (!session) return;
+    const changed = translatedPages.filter(page => page.status !== 'translating' && !savedPagesRef.current.has(page));
+    if (changed.length === 0) return;
+
+    changed.forEach(page => savedPagesRef.current.add(page));
+    const completed = translatedPages.filter(page => page.status === 'completed').length;
+    const selected = translatedPages.filter(page => page.status !== 'skipped').length;
+    savePages(session.id, changed, completed, selected).catch(error => console.warn("Could not save pages", error));
+  }, [translatedPages, session]);
+
+  useEffect(() => {
+    if (appState !== AppState.IDLE && appState !== AppState.ERROR) return;
+    listSessions()
+      .then(setRecentSessions)
+      .catch(error => console.warn("Could not load recent documents", error));
+  }, [appState]);
+
+  const provider = getProvider(apiConfig.provider);
+  const accent = ACCENT_STYLES[provider.accent];
 
   return (
     <div className="h-screen w-full flex flex-col bg-slate-50 text-slate-900">
       <SettingsModal 
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
-        config={apiConfig}
-        onSave={handleSaveSettings}
+        profile={activeProfile}
+        profiles={profileStore.profiles}
+        onSave={handleSaveProfile}
+        onDelete={profileStore.profiles.length > 1 ? () => handleDeleteProfile(activeProfile.id) : undefined}
       />
 
+      {isReportOpen && reportStats && (
+        <JobReport
+          pages={reportPages}
+          stats={reportStats}
+          documentName={session?.fileName}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between shrink-0 z-20">
         <div className="flex items-center gap-2">
-          <div className={`${apiConfig.provider === 'deeplx' ? 'bg-purple-600' : 'bg-blue-600'} p-2 rounded-lg text-white transition-colors`}>
+          <div className={`${accent.solid} p-2 rounded-lg text-white transition-colors`}>
             <Languages size={24} />
           </div>
           <div>
             <h1 className="text-xl font-bold tracking-tight text-gray-900">PDF Translate Pro</h1>
             <p className="text-xs text-gray-500 font-medium flex items-center gap-1">
-              {apiConfig.provider === 'openai' ? (
-                <><span>Model: {apiConfig.modelName}</span> <span className="text-gray-300">|</span> <span>Vision</span></>
+              {apiConfig.routingMode === 'auto' ? (
+                <span>
+                  Auto Routing: {getProvider(apiConfig.textProvider).name} (text) / {getProvider(apiConfig.visionProvider).name} (vision)
+                </span>
               ) : (
-                <><span>DeepLX</span> <span className="text-gray-300">|</span> <span>Text Mode</span></>
+                <>
+                  <span>{provider.capabilities.usesModel ? `Model: ${apiConfig.modelName}` : provider.name}</span>
+                  <span className="text-gray-300">|</span>
+                  <span>{INPUT_LABELS[configInput(apiConfig)]}</span>
+                </>
               )}
             </p>
           </div>
@@ -153,11 +539,18 @@ const App: React.FC = () => {
                <span>Secure</span>
             </div>
             <div className="flex items-center gap-2">
-               <Zap size={16} className={apiConfig.provider === 'deeplx' ? "text-gray-400" : "text-amber-500"} />
-               <span>{apiConfig.provider === 'deeplx' ? 'Text Translation' : 'Layout Preservation'}</span>
+               <Zap size={16} className={provider.capabilities.preservesLayout ? "text-amber-500" : "text-gray-400"} />
+               <span>{provider.capabilities.preservesLayout ? 'Layout Preservation' : 'Text Translation'}</span>
             </div>
           </div>
 
+          <ProfilePicker
+            profiles={profileStore.profiles}
+            activeId={profileStore.activeId}
+            onSelect={(id) => updateProfiles({ ...profileStore, activeId: id })}
+            onCreate={handleNewProfile}
+          />
+
           <button 
             onClick={() => setIsSettingsOpen(true)}
             className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600 bg-gray-100 hover:bg-blue-50 px-3 py-2 rounded-lg transition-colors"
@@ -171,15 +564,17 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="flex-1 overflow-hidden relative">
         {appState === AppState.IDLE || appState === AppState.ERROR ? (
-          <div className="h-full flex flex-col items-center justify-center p-6">
+          <div className="h-full flex flex-col items-center justify-center p-6 overflow-y-auto">
              <div className="w-full max-w-2xl">
                 <div className="text-center mb-10">
                   <h2 className="text-4xl font-bold text-slate-900 mb-4">
                     Translate PDFs instantly.
                   </h2>
                   <p className="text-lg text-slate-600">
-                    Upload any PDF. We translate it to Chinese using 
-                    {apiConfig.provider === 'deeplx' ? ' DeepLX (High Speed)' : ' AI Vision (High Accuracy)'}.
+                    Upload any PDF. We translate it to {getLanguage(apiConfig.targetLang).name} using 
+                    {apiConfig.routingMode === 'auto'
+                      ? ` ${getProvider(apiConfig.textProvider).tagline} or ${getProvider(apiConfig.visionProvider).tagline}, page by page`
+                      : ` ${provider.tagline}`}.
                   </p>
                 </div>
                 
@@ -188,6 +583,13 @@ const App: React.FC = () => {
                   isProcessing={false} 
                 />
                 
+                <RecentDocuments
+                  sessions={recentSessions}
+                  onOpen={(saved) => openSession(saved, false)}
+                  onContinue={(saved) => openSession(saved, true)}
+                  onDelete={handleDeleteSession}
+                />
+                
                 {appState === AppState.ERROR && (
                   <div className="mt-6 p-4 bg-red-50 text-red-700 rounded-lg border border-red-200 text-center">
                     Something went wrong. Please check your API connection or try a different file.
@@ -195,32 +597,56 @@ const App: React.FC = () => {
                 )}
              </div>
           </div>
+        ) : appState === AppState.SELECTING && pdfRef.current && pendingFile ? (
+          <PageSelector
+            pdf={pdfRef.current}
+            fileName={pendingFile.file.name}
+            config={apiConfig}
+            onStart={startTranslation}
+            onCancel={handleReset}
+          />
         ) : appState === AppState.PROCESSING ? (
           <div className="h-full flex flex-col items-center justify-center p-6 bg-white">
              <div className="w-full max-w-md text-center space-y-8">
                 <div className="relative mx-auto w-24 h-24">
                    <div className="absolute inset-0 border-4 border-gray-100 rounded-full"></div>
-                   <div className={`absolute inset-0 border-4 ${apiConfig.provider === 'deeplx' ? 'border-purple-600' : 'border-blue-600'} rounded-full border-t-transparent animate-spin`}></div>
+                   <div className={`absolute inset-0 border-4 ${accent.border} rounded-full border-t-transparent ${jobState === 'paused' ? '' : 'animate-spin'}`}></div>
                 </div>
                 
                 <div>
                   <h3 className="text-2xl font-bold text-gray-900 mb-2">Translating Document</h3>
                   <p className="text-gray-500">
-                    Processing page {progress.current + 1} of {progress.total}...
+                    {jobState === 'paused'
+                      ? `Paused after ${progress.current} of ${progress.total} pages. Pages already in flight will finish.`
+                      : `Completed ${progress.current} of ${progress.total} pages (${apiConfig.concurrency} at a time)...`}
                   </p>
+                  <div className="flex justify-center mt-2">
+                    <ThrottleIndicator notices={throttling} />
+                  </div>
+                </div>
+
+                <div className="flex justify-center">
+                  <JobControls
+                    jobState={jobState}
+                    onPause={() => jobRef.current?.pause()}
+                    onResume={() => jobRef.current?.resume()}
+                    onCancel={() => jobRef.current?.cancel()}
+                  />
                 </div>
 
                 <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
                   <div 
-                    className={`${apiConfig.provider === 'deeplx' ? 'bg-purple-600' : 'bg-blue-600'} h-full transition-all duration-500 ease-out`}
+                    className={`${accent.solid} h-full transition-all duration-500 ease-out`}
                     style={{ width: `${((progress.current) / Math.max(progress.total, 1)) * 100}%` }}
                   ></div>
                 </div>
                 
-                <div className="grid grid-cols-3 gap-4 mt-8">
+                <div className="grid grid-cols-2 gap-4 mt-8">
                   <div className="flex flex-col items-center p-4 bg-gray-50 rounded-xl">
                     <span className="text-xs font-semibold text-gray-400 uppercase mb-1">Status</span>
-                    <span className={`font-medium ${apiConfig.provider === 'deeplx' ? 'text-purple-600' : 'text-blue-600'}`}>Active</span>
+                    <span className={`font-medium ${jobState === 'paused' ? 'text-amber-600' : accent.text}`}>
+                      {jobState === 'paused' ? 'Paused' : 'Active'}
+                    </span>
                   </div>
                   <div className="flex flex-col items-center p-4 bg-gray-50 rounded-xl">
                     <span className="text-xs font-semibold text-gray-400 uppercase mb-1">Pages</span>
@@ -229,7 +655,13 @@ const App: React.FC = () => {
                   <div className="flex flex-col items-center p-4 bg-gray-50 rounded-xl">
                     <span className="text-xs font-semibold text-gray-400 uppercase mb-1">Provider</span>
                     <span className="font-medium text-gray-900 truncate max-w-[100px]">
-                        {apiConfig.provider === 'deeplx' ? 'DeepLX' : 'OpenAI'}
+                        {provider.name}
+                    </span>
+                  </div>
+                  <div className="flex flex-col items-center p-4 bg-gray-50 rounded-xl">
+                    <span className="text-xs font-semibold text-gray-400 uppercase mb-1">Time Left</span>
+                    <span className="font-medium text-gray-900">
+                      {jobState === 'paused' ? '—' : remainingTime === null ? 'Estimating...' : `~${formatDuration(remainingTime)}`}
                     </span>
                   </div>
                 </div>
@@ -238,8 +670,19 @@ const App: React.FC = () => {
         ) : (
           <TranslationViewer 
             pages={translatedPages}
-            onReset={() => setAppState(AppState.IDLE)}
-            onDownload={() => {}} 
+            targetLang={documentConfig.targetLang}
+            documentName={session?.fileName}
+            onReset={handleReset}
+            onRetryPage={(index) => retryPages([index])}
+            onRequestOriginal={renderOriginal}
+            onRetryFailed={handleRetryFailed}
+            onResumeCancelled={handleResumeCancelled}
+            onShowReport={reportStats && jobState === 'idle' ? () => setIsReportOpen(true) : undefined}
+            jobState={jobState}
+            throttling={throttling}
+            onPause={() => jobRef.current?.pause()}
+            onResume={() => jobRef.current?.resume()}
+            onCancel={() => jobRef.current?.cancel()}
           />
         )}
       </main>
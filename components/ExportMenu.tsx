@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { PdfLayout } from '../services/pdfExportService';
+import { EpubChapterMode } from '../services/epubExport';
+import { ExportFormat } from '../services/documentExportService';
+
+export interface ExportChoice {
+  format: ExportFormat;
+  pdfLayout: PdfLayout;
+  epubChapters: EpubChapterMode;
+  skipFailed: boolean;
+}
+
+interface ExportMenuProps {
+  isBusy: boolean;
+  busyLabel: string;
+  onExport: (choice: ExportChoice) => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'pdf', label: 'PDF' },
+  { id: 'docx', label: 'Word' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'epub', label: 'EPUB' },
+];
+
+const PDF_LAYOUTS: { id: PdfLayout; label: string; description: string }[] = [
+  { id: 'translation', label: 'Translation only', description: 'Translated pages, one after another' },
+  { id: 'side-by-side', label: 'Side by side', description: 'Original on the left, translation on the right' },
+  { id: 'interleaved', label: 'Interleaved', description: 'Each original page followed by its translation' },
+];
+
+const EPUB_CHAPTERS: { id: EpubChapterMode; label: string; description: string }[] = [
+  { id: 'page', label: 'One chapter per page', description: 'Mirrors the page structure of the PDF' },
+  { id: 'section', label: 'One chapter per section', description: 'Starts a new chapter at each top-level heading' },
+];
+
+const FORMAT_HINTS: Partial<Record<ExportFormat, string>> = {
+  docx: 'Editable Word document with headings, lists and tables.',
+  markdown: 'GitHub Flavored Markdown, with tables as GFM tables.',
+  html: 'A single self-contained file styled like the viewer.',
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ isBusy, busyLabel, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('translation');
+  const [epubChapters, setEpubChapters] = useState<EpubChapterMode>('page');
+  const [skipFailed, setSkipFailed] = useState(false);
+
+  const formatLabel = FORMATS.find(f => f.id === format)?.label;
+
+  const handleExport = () => {
+    setIsOpen(false);
+    onExport({ format, pdfLayout, epubChapters, skipFailed });
+  };
+
+  const renderOptions = <T extends string>(
+    name: string,
+    options: { id: T; label: string; description: string }[],
+    value: T,
+    onChange: (id: T) => void
+  ) => (
+    <div className="space-y-1">
+      {options.map(option => (
+        <label
+          key={option.id}
+          className={`flex items-start gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+            value === option.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+          }`}
+        >
+          <input
+            type="radio"
+            name={name}
+            checked={value === option.id}
+            onChange={() => onChange(option.id)}
+            className="mt-1 accent-blue-600"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+            <span className="block text-xs text-gray-500">{option.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={isBusy}
+        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all text-sm font-medium disabled:opacity-70 w-48 justify-center"
+      >
+        {isBusy ? (
+            <div className="h-4 w-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+        ) : (
+            <Download size={16} />
+        )}
+        {isBusy ? busyLabel : 'Download'}
+        {!isBusy && <ChevronDown size={14} />}
+      </button>
+
+      {isOpen && !isBusy && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-xl z-30 p-4 space-y-3 animate-fade-in">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Format</p>
+          <div className="grid grid-cols-5 gap-1 bg-gray-100 p-1 rounded-lg">
+            {FORMATS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setFormat(option.id)}
+                className={`py-1.5 text-xs font-medium rounded-md transition-all ${
+                  format === option.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {format === 'pdf' && (
+            <>
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">PDF layout</p>
+              {renderOptions('pdf-layout', PDF_LAYOUTS, pdfLayout, setPdfLayout)}
+            </>
+          )}
+          {format === 'epub' && (
+            <>
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Chapters</p>
+              {renderOptions('epub-chapters', EPUB_CHAPTERS, epubChapters, setEpubChapters)}
+            </>
+          )}
+          {FORMAT_HINTS[format] && <p className="text-xs text-gray-500">{FORMAT_HINTS[format]}</p>}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={skipFailed}
+              onChange={(e) => setSkipFailed(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Leave out untranslated pages
+          </label>
+          <button
+            onClick={handleExport}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Download size={16} />
+            Download {formatLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
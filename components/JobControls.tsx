@@ -0,0 +1,43 @@
+import React from 'react';
+import { Pause, Play, Square } from 'lucide-react';
+import { JobState } from '../services/jobController';
+
+interface JobControlsProps {
+  jobState: JobState | 'idle';
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+export const JobControls: React.FC<JobControlsProps> = ({ jobState, onPause, onResume, onCancel }) => {
+  if (jobState === 'idle' || jobState === 'cancelled') return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {jobState === 'paused' ? (
+        <button
+          onClick={onResume}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors shadow-sm"
+        >
+          <Play size={14} />
+          Resume
+        </button>
+      ) : (
+        <button
+          onClick={onPause}
+          className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+        >
+          <Pause size={14} />
+          Pause
+        </button>
+      )}
+      <button
+        onClick={onCancel}
+        className="flex items-center gap-2 bg-red-50 hover:bg-red-100 text-red-600 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+      >
+        <Square size={14} />
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { BarChart3, X, FileSpreadsheet, FileJson } from 'lucide-react';
+import { TranslatedPage, TranslationStats } from '../types';
+import { getProvider } from '../services/providers';
+import { formatCost } from '../services/costEstimate';
+import { formatDuration } from '../services/usage';
+import { downloadReport } from '../services/jobReport';
+
+interface JobReportProps {
+  pages: TranslatedPage[]; // The pages of the job
+  stats: TranslationStats;
+  documentName?: string;
+  onClose: () => void;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+// Unknown prices are shown as such rather than as free
+const formatTotalCost = (cost: number | null) => (cost === null ? 'Unknown' : formatCost(cost));
+
+export const JobReport: React.FC<JobReportProps> = ({ pages, stats, documentName, onClose }) => {
+  const summary: { label: string; value: string; detail?: string }[] = [
+    {
+      label: 'Pages',
+      value: `${stats.completedPages} / ${stats.totalPages}`,
+      detail: [
+        stats.failedPages > 0 && `${stats.failedPages} failed`,
+        stats.cachedPages > 0 && `${stats.cachedPages} cached`,
+        stats.incompletePages > 0 && `${stats.incompletePages} incomplete`
+      ].filter(Boolean).join(', ') || undefined
+    },
+    { label: 'Time', value: formatDuration(stats.totalTime), detail: `${formatDuration(stats.averageLatency)} per page` },
+    { label: 'Tokens', value: formatTokens(stats.inputTokens + stats.outputTokens), detail: `${formatTokens(stats.inputTokens)} in / ${formatTokens(stats.outputTokens)} out` },
+    { label: 'Cost', value: formatTotalCost(stats.cost), detail: `${stats.requests} requests, ${stats.retries} retries` }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden animate-fade-in">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-gray-800">
+            <BarChart3 className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-lg">Job Report</h2>
+            {documentName && <span className="text-sm text-gray-500 truncate max-w-xs">{documentName}</span>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {summary.map(item => (
+              <div key={item.label} className="p-3 bg-gray-50 rounded-xl">
+                <span className="block text-xs font-semibold text-gray-400 uppercase mb-1">{item.label}</span>
+                <span className="block font-semibold text-gray-900">{item.value}</span>
+                {item.detail && <span className="block text-xs text-gray-500 mt-0.5">{item.detail}</span>}
+              </div>
+            ))}
+          </div>
+
+          {stats.models.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase border-b border-gray-200">
+                  <th className="py-2 font-semibold">Provider / Model</th>
+                  <th className="py-2 font-semibold text-right">Pages</th>
+                  <th className="py-2 font-semibold text-right">Input</th>
+                  <th className="py-2 font-semibold text-right">Output</th>
+                  <th className="py-2 font-semibold text-right">Requests</th>
+                  <th className="py-2 font-semibold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.models.map(entry => (
+                  <tr key={`${entry.provider}-${entry.model}`} className="border-b border-gray-100 text-gray-700">
+                    <td className="py-2">
+                      {getProvider(entry.provider).name}
+                      {entry.model && <span className="text-gray-400"> · {entry.model}</span>}
+                    </td>
+                    <td className="py-2 text-right">{entry.pages}</td>
+                    <td className="py-2 text-right font-mono">{formatTokens(entry.inputTokens)}</td>
+                    <td className="py-2 text-right font-mono">{formatTokens(entry.outputTokens)}</td>
+                    <td className="py-2 text-right">
+                      {entry.requests}
+                      {entry.retries > 0 && <span className="text-amber-600"> ({entry.retries} retried)</span>}
+                    </td>
+                    <td className="py-2 text-right">{formatTotalCost(entry.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">No requests were made: every page came from the translation cache or was not translated.</p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Costs use the prices set in Settings, or list prices for known models. Token counts are those reported by the
+            provider; retried requests that failed before answering are not billed and not counted.
+          </p>
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={() => downloadReport('csv', pages, stats, documentName)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            <FileSpreadsheet size={16} />
+            Export CSV
+          </button>
+          <button
+            onClick={() => downloadReport('json', pages, stats, documentName)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            <FileJson size={16} />
+            Export JSON
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Check, FileText, Play, X, Calculator } from 'lucide-react';
+import { ApiConfig } from '../types';
+import { renderPageToImage } from '../services/pdfService';
+import { createLimiter, Limiter } from '../services/scheduler';
+import { formatPageRanges, parsePageRanges } from '../services/pageRanges';
+import { estimateJob, formatCost } from '../services/costEstimate';
+
+// Thumbnails are rendered small and one at a time, and only once scrolled into view
+const THUMBNAIL_RENDER = { maxDimension: 240, imageQuality: 0.6 };
+
+interface PageThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  selected: boolean;
+  renderQueue: Limiter;
+  onClick: (e: React.MouseEvent) => void;
+}
+
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ pdf, pageNumber, selected, renderQueue, onClick }) => {
+  const ref = useRef<HTMLButtonElement>(null);
+  const [image, setImage] = useState('');
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      renderQueue(() => (cancelled ? Promise.resolve('') : renderPageToImage(pdf, pageNumber, THUMBNAIL_RENDER)))
+        .then(dataUrl => { if (!cancelled) setImage(dataUrl); })
+        .catch(error => console.warn(`Could not render thumbnail of page ${pageNumber}`, error));
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pdf, pageNumber, renderQueue]);
+
+  return (
+    <button
+      ref={ref}
+      onClick={onClick}
+      className={`relative flex flex-col items-center rounded-lg p-2 transition-all ${
+        selected ? 'bg-blue-50 ring-2 ring-blue-500' : 'bg-white ring-1 ring-gray-200 hover:ring-gray-300 opacity-60 hover:opacity-100'
+      }`}
+    >
+      <div className="w-full aspect-[3/4] bg-gray-100 rounded-sm overflow-hidden flex items-center justify-center">
+        {image ? (
+          <img src={image} alt={`Page ${pageNumber}`} className="w-full h-full object-contain" />
+        ) : (
+          <FileText size={20} className="text-gray-300" />
+        )}
+      </div>
+      <span className="mt-1 text-xs font-medium text-gray-600">{pageNumber}</span>
+      {selected && (
+        <span className="absolute top-1 right-1 bg-blue-600 text-white rounded-full p-0.5">
+          <Check size={12} />
+        </span>
+      )}
+    </button>
+  );
+};
+
+interface PageSelectorProps {
+  pdf: PDFDocumentProxy;
+  fileName: string;
+  config: ApiConfig;
+  onStart: (pageIndices: number[]) => void;
+  onCancel: () => void;
+}
+
+export const PageSelector: React.FC<PageSelectorProps> = ({ pdf, fileName, config, onStart, onCancel }) => {
+  const numPages = pdf.numPages;
+  const allPages = useMemo(() => Array.from({ length: numPages }, (_, i) => i), [numPages]);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(allPages));
+  const [rangeText, setRangeText] = useState(() => formatPageRanges(allPages));
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const lastClicked = useRef<number | null>(null);
+  const renderQueue = useMemo(() => createLimiter(1), [pdf]);
+
+  const selectPages = (indices: Iterable<number>) => {
+    const next = new Set(indices);
+    setSelected(next);
+    setRangeText(formatPageRanges(Array.from(next)));
+    setRangeError(null);
+  };
+
+  const handleRangeChange = (text: string) => {
+    setRangeText(text);
+    const { indices, error } = parsePageRanges(text, numPages);
+    setRangeError(error);
+    if (!error) setSelected(new Set(indices));
+  };
+
+  // Shift-click selects or clears everything between the last clicked page and this one
+  const handlePageClick = (index: number, e: React.MouseEvent) => {
+    const next = new Set(selected);
+    const select = !selected.has(index);
+    const from = e.shiftKey && lastClicked.current !== null ? Math.min(lastClicked.current, index) : index;
+    const to = e.shiftKey && lastClicked.current !== null ? Math.max(lastClicked.current, index) : index;
+    for (let i = from; i <= to; i++) {
+      if (select) next.add(i);
+      else next.delete(i);
+    }
+    lastClicked.current = index;
+    selectPages(next);
+  };
+
+  const count = selected.size;
+  const estimate = estimateJob(count, config);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="bg-white border-b border-gray-200 px-6 py-4 shrink-0">
+        <div className="max-w-5xl mx-auto flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[16rem]">
+            <h2 className="text-lg font-bold text-gray-900 truncate">{fileName}</h2>
+            <p className="text-sm text-gray-500">
+              Choose the pages to translate. Click a page to toggle it, shift-click to toggle a range.
+            </p>
+          </div>
+          <div className="w-72">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Pages (e.g. 5-20, 33)</label>
+            <input
+              type="text"
+              value={rangeText}
+              onChange={(e) => handleRangeChange(e.target.value)}
+              placeholder="None selected"
+              className={`w-full px-3 py-2 border rounded-lg text-sm outline-none focus:ring-2 transition-all ${
+                rangeError ? 'border-red-400 focus:ring-red-300' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+              }`}
+            />
+          </div>
+          <div className="flex gap-2 text-sm">
+            <button onClick={() => selectPages(allPages)} className="px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors">
+              All
+            </button>
+            <button onClick={() => selectPages([])} className="px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors">
+              None
+            </button>
+          </div>
+        </div>
+        {rangeError && <p className="max-w-5xl mx-auto text-xs text-red-600 mt-2">{rangeError}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-3">
+          {allPages.map(index => (
+            <PageThumbnail
+              key={index}
+              pdf={pdf}
+              pageNumber={index + 1}
+              selected={selected.has(index)}
+              renderQueue={renderQueue}
+              onClick={(e) => handlePageClick(index, e)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white border-t border-gray-200 px-6 py-4 shrink-0">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Calculator size={16} className="text-gray-400" />
+            <span>
+              <strong className="text-gray-900">{count}</strong> of {numPages} pages
+              <span className="text-gray-300"> | </span>
+              {estimate.upperBound ? 'up to ' : '≈ '}{estimate.requests.toLocaleString()} requests
+              {estimate.inputTokens > 0 && (
+                <>
+                  <span className="text-gray-300"> | </span>
+                  ~{Math.round((estimate.inputTokens + estimate.outputTokens) / 1000).toLocaleString()}k tokens
+                </>
+              )}
+              <span className="text-gray-300"> | </span>
+              {estimate.cost === null ? 'cost unknown for this model' : `${estimate.upperBound ? 'up to ' : '~'}${formatCost(estimate.cost)}`}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              <X size={16} />
+              Cancel
+            </button>
+            <button
+              onClick={() => onStart(Array.from(selected).sort((a, b) => a - b))}
+              disabled={count === 0 || rangeError !== null}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+            >
+              <Play size={16} />
+              Translate {count} {count === 1 ? 'page' : 'pages'}
+            </button>
+          </div>
+        </div>
+        <p className="max-w-5xl mx-auto text-xs text-gray-400 mt-1">
+          Estimates assume typical pages and list prices; dense pages, retries and cached pages change the actual usage.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Plus, UserCog } from 'lucide-react';
+import { ConfigProfile } from '../types';
+
+interface ProfilePickerProps {
+  profiles: ConfigProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+}
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeId, onSelect, onCreate }) => {
+  return (
+    <div className="flex items-center gap-1 bg-gray-100 rounded-lg pl-3 pr-1 py-1">
+      <UserCog size={16} className="text-gray-500 shrink-0" />
+      <select
+        value={activeId}
+        onChange={(e) => onSelect(e.target.value)}
+        title="Settings profile for new translations"
+        className="bg-transparent text-sm font-medium text-gray-700 py-1 pr-1 outline-none max-w-[10rem] truncate cursor-pointer"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={onCreate}
+        title="New profile (copy of the current one)"
+        className="p-1.5 rounded-md text-gray-500 hover:text-blue-600 hover:bg-white transition-colors"
+      >
+        <Plus size={16} />
+      </button>
+    </div>
+  );
+};
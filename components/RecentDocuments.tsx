@@ -0,0 +1,89 @@
+import React from 'react';
+import { FileText, Play, Eye, Trash2, Clock } from 'lucide-react';
+import { TranslationSession } from '../types';
+import { getLanguage } from '../services/languages';
+
+interface RecentDocumentsProps {
+  sessions: TranslationSession[];
+  onOpen: (session: TranslationSession) => void;
+  onContinue: (session: TranslationSession) => void;
+  onDelete: (session: TranslationSession) => void;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const RecentDocuments: React.FC<RecentDocumentsProps> = ({ sessions, onOpen, onContinue, onDelete }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">
+        <Clock size={14} />
+        Recent documents
+      </h3>
+      <ul className="bg-white border border-gray-200 rounded-xl divide-y divide-gray-100 shadow-sm">
+        {sessions.map(session => {
+          // Pages left out in the page selection don't count as missing
+          const total = session.selectedPages ?? session.numPages;
+          const isFinished = session.completedPages >= total;
+          return (
+            <li key={session.id} className="flex items-center gap-3 px-4 py-3">
+              <FileText size={20} className="text-gray-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{session.fileName}</p>
+                <p className="text-xs text-gray-500">
+                  {session.completedPages} / {total} pages
+                  {total < session.numPages && <span className="text-gray-400"> (of {session.numPages})</span>}
+                  <span className="text-gray-300"> | </span>
+                  {getLanguage(session.config.targetLang).name}
+                  <span className="text-gray-300"> | </span>
+                  {formatDate(session.updatedAt)}
+                </p>
+              </div>
+              {isFinished ? (
+                <button
+                  onClick={() => onOpen(session)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 px-3 py-1.5 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  <Eye size={14} />
+                  Open
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onOpen(session)}
+                    className="flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-gray-800 px-3 py-1.5 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Eye size={14} />
+                    View
+                  </button>
+                  <button
+                    onClick={() => onContinue(session)}
+                    className="flex items-center gap-1.5 text-sm font-medium text-green-600 hover:text-green-700 px-3 py-1.5 rounded-lg hover:bg-green-50 transition-colors"
+                  >
+                    <Play size={14} />
+                    Continue
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onDelete(session)}
+                title="Remove from history"
+                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
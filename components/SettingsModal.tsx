@@ -1,37 +1,126 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, X, Save, RotateCcw, Server, Key, Box } from 'lucide-react';
-import { ApiConfig } from '../types';
+import { Settings, X, Save, RotateCcw, Server, Key, Box, Languages, ArrowRight, Layers, Database, Trash2, Scissors, FileText, Route, ImageIcon, Rows3, Activity, DollarSign, Gauge, UserCog, Plus, ChevronRight } from 'lucide-react';
+import { ApiConfig, ApiProvider, ConfigProfile, ModelPrice, ProviderField, RateLimits, RenderSettings, RoutingMode } from '../types';
+import { LANGUAGES, AUTO_DETECT } from '../services/languages';
+import { MAX_CONCURRENCY } from '../services/scheduler';
+import { MIN_SEGMENT_LENGTH, MAX_SEGMENT_LENGTH } from '../services/textSegments';
+import { MIN_RENDER_DIMENSION, MAX_RENDER_DIMENSION } from '../services/pdfService';
+import { getCacheStats, clearCache, CacheStats } from '../services/translationCache';
+import { FREE_PROVIDERS, listPrice } from '../services/costEstimate';
+import { PROVIDER_LIST, TEXT_PROVIDERS, VISION_PROVIDERS, createDefaultConfig, getProvider, switchProvider, withStoredSettings } from '../services/providers';
+import { ACCENT_STYLES } from './providerStyles';
+
+const FIELD_ICONS: Record<ProviderField['icon'], typeof Server> = {
+  server: Server,
+  key: Key,
+  model: Box,
+};
+
+const ROUTING_OPTIONS: { id: RoutingMode; label: string }[] = [
+  { id: 'single', label: 'Single Provider' },
+  { id: 'auto', label: 'Auto (per page)' },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  config: ApiConfig;
-  onSave: (config: ApiConfig) => void;
+  profile: ConfigProfile; // The active profile, edited here
+  profiles: ConfigProfile[]; // All profiles, to pick fallbacks from
+  onSave: (profile: ConfigProfile) => void;
+  onDelete?: () => void; // Absent for the last remaining profile
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, config, onSave }) => {
-  const [localConfig, setLocalConfig] = useState<ApiConfig>(config);
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, profile, profiles, onSave, onDelete }) => {
+  const [localConfig, setLocalConfig] = useState<ApiConfig>(profile.config);
+  const [profileName, setProfileName] = useState(profile.name);
+  const [fallbackIds, setFallbackIds] = useState<string[]>(profile.fallbackIds);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   useEffect(() => {
-    setLocalConfig(config);
-  }, [config, isOpen]);
+    setLocalConfig(profile.config);
+    setProfileName(profile.name);
+    setFallbackIds(profile.fallbackIds);
+  }, [profile, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getCacheStats()
+      .then(setCacheStats)
+      .catch(() => setCacheStats(null));
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const provider = getProvider(localConfig.provider);
+
+  // Render settings belong to the active provider, like its connection fields
+  const updateRender = (patch: Partial<RenderSettings>) => {
+    setLocalConfig({ ...localConfig, render: { ...localConfig.render, ...patch } });
+  };
+
+  const updateRateLimit = (field: keyof RateLimits, value: string) => {
+    setLocalConfig({ ...localConfig, rateLimits: { ...localConfig.rateLimits, [field]: Math.max(0, Math.floor(Number(value)) || 0) } });
+  };
+
+  // Price overrides are keyed by model name; clearing a field goes back to the list price
+  const priceKey = localConfig.modelName.trim().toLowerCase();
+  const defaultPrice = listPrice(localConfig.modelName);
+  const updateModelPrice = (field: keyof ModelPrice, value: string) => {
+    const { [priceKey]: current, ...others } = localConfig.modelPrices;
+    if (value === '') {
+      setLocalConfig({ ...localConfig, modelPrices: others });
+      return;
+    }
+    const price = { ...(current ?? defaultPrice ?? { input: 0, output: 0 }), [field]: Math.max(0, Number(value)) };
+    setLocalConfig({ ...localConfig, modelPrices: { ...others, [priceKey]: price } });
+  };
+  const accent = ACCENT_STYLES[provider.accent];
+
   const handleSave = () => {
-    onSave(localConfig);
+    onSave({ ...profile, name: profileName.trim() || profile.name, config: withStoredSettings(localConfig), fallbackIds });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!onDelete || !confirm(`Delete the profile "${profile.name}"? Its settings and API keys are removed from this browser.`)) return;
+    onDelete();
     onClose();
   };
 
+  const nameOf = (id: string) => profiles.find(candidate => candidate.id === id)?.name;
+  const fallbackOptions = profiles.filter(candidate => candidate.id !== profile.id && !fallbackIds.includes(candidate.id));
+
+  const handleClearCache = async () => {
+    if (!confirm("Remove all cached translations? Pages will be sent to the provider again next time.")) return;
+    await clearCache();
+    setCacheStats({ entries: 0, bytes: 0 });
+  };
+
   const handleReset = () => {
-    setLocalConfig({
-      provider: 'openai',
-      baseUrl: 'https://api.openai.com/v1',
-      apiKey: '',
-      modelName: 'gpt-4o'
-    });
+    setLocalConfig(createDefaultConfig());
   };
 
+  const renderRouteSelect = (label: string, key: 'textProvider' | 'visionProvider', options: typeof PROVIDER_LIST) => (
+    <label className="block">
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      <select
+        value={localConfig[key]}
+        onChange={(e) => setLocalConfig({ ...localConfig, [key]: e.target.value as ApiProvider })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+      >
+        {options.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md mx-4 overflow-hidden animate-fade-in">
@@ -45,146 +134,446 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
-          
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+
+          {/* Profile */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+              <UserCog size={16} className="text-gray-400"/>
+              Profile Name
+            </label>
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder={profile.name}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+            />
+            <div className="mt-3">
+              <span className="block text-xs text-gray-500 mb-1">Fallbacks, in order</span>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {fallbackIds.map((id, i) => (
+                  <React.Fragment key={id}>
+                    {i > 0 && <ChevronRight size={14} className="text-gray-300" />}
+                    <span className="flex items-center gap-1 bg-gray-100 text-gray-700 text-xs font-medium pl-2 pr-1 py-1 rounded-md">
+                      {nameOf(id)}
+                      <button
+                        onClick={() => setFallbackIds(fallbackIds.filter(other => other !== id))}
+                        className="text-gray-400 hover:text-gray-700 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  </React.Fragment>
+                ))}
+                {fallbackOptions.length > 0 && (
+                  <label className="flex items-center gap-1 text-xs text-blue-600">
+                    <Plus size={12} />
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && setFallbackIds([...fallbackIds, e.target.value])}
+                      className="bg-transparent outline-none cursor-pointer"
+                    >
+                      <option value="">Add fallback</option>
+                      {fallbackOptions.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {profiles.length > 1
+                  ? 'A page that still fails after retries (content filter, server errors) is translated again with the next profile.'
+                  : 'Create another profile from the header to use it as a fallback for pages that fail on this one.'}
+              </p>
+            </div>
+          </div>
+
           {/* Provider Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Translation Provider
             </label>
+            <div className="grid grid-cols-3 gap-2 p-1 bg-gray-100 rounded-lg">
+              {PROVIDER_LIST.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setLocalConfig(switchProvider(localConfig, option.id))}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-all ${
+                    localConfig.provider === option.id 
+                      ? `bg-white ${ACCENT_STYLES[option.accent].text} shadow-sm` 
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Routing */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+              <Route size={16} className="text-gray-400"/>
+              Page Routing
+            </label>
             <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
-              <button
-                onClick={() => setLocalConfig({ ...localConfig, provider: 'openai' })}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                  localConfig.provider === 'openai' 
-                    ? 'bg-white text-blue-600 shadow-sm' 
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
+              {ROUTING_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setLocalConfig({ ...localConfig, routingMode: option.id })}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-all ${
+                    localConfig.routingMode === option.id
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {localConfig.routingMode === 'auto' && (
+              <div className="mt-3 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  {renderRouteSelect('Text pages', 'textProvider', TEXT_PROVIDERS)}
+                  {renderRouteSelect('Scanned & visual pages', 'visionProvider', VISION_PROVIDERS)}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Pages with a good text layer go to the text provider; scans, image-heavy and mostly graphic
+                  pages go to the vision provider. Select each provider above to set up its connection.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Language Selection */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+              <Languages size={16} className="text-gray-400"/>
+              Languages
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                value={localConfig.sourceLang}
+                onChange={(e) => setLocalConfig({ ...localConfig, sourceLang: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
               >
-                OpenAI / Vision
-              </button>
-              <button
-                onClick={() => setLocalConfig({ ...localConfig, provider: 'deeplx' })}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                  localConfig.provider === 'deeplx' 
-                    ? 'bg-white text-purple-600 shadow-sm' 
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
+                <option value={AUTO_DETECT}>Detect automatically</option>
+                {LANGUAGES.map(lang => (
+                  <option key={lang.code} value={lang.code}>{lang.name}</option>
+                ))}
+              </select>
+              <ArrowRight size={16} className="text-gray-400 shrink-0" />
+              <select
+                value={localConfig.targetLang}
+                onChange={(e) => setLocalConfig({ ...localConfig, targetLang: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
               >
-                DeepLX
-              </button>
+                {LANGUAGES.map(lang => (
+                  <option key={lang.code} value={lang.code}>{lang.name}</option>
+                ))}
+              </select>
             </div>
           </div>
 
-          {localConfig.provider === 'openai' ? (
-            <>
-              {/* OpenAI Settings */}
-              <div className="space-y-4 animate-fade-in">
-                <div>
-                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-                    <Server size={16} className="text-gray-400"/>
-                    API Base URL
-                  </label>
-                  <input
-                    type="text"
-                    value={localConfig.baseUrl}
-                    onChange={(e) => setLocalConfig({ ...localConfig, baseUrl: e.target.value })}
-                    placeholder="https://api.openai.com/v1"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    e.g. <code>https://529961.com</code> or <code>https://api.openai.com/v1</code>
-                  </p>
-                </div>
+          {/* Concurrency */}
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              <span className="flex items-center gap-2">
+                <Layers size={16} className="text-gray-400"/>
+                Parallel Pages
+              </span>
+              <span className="font-mono text-gray-500">{localConfig.concurrency}</span>
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={localConfig.concurrency}
+              onChange={(e) => setLocalConfig({ ...localConfig, concurrency: Number(e.target.value) })}
+              className="w-full accent-blue-600"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Number of pages translated at the same time. Lower it if your endpoint rate-limits you.
+            </p>
+          </div>
 
-                <div>
-                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-                    <Key size={16} className="text-gray-400"/>
-                    API Key
-                  </label>
+          {/* Rate limits of the active provider's endpoint */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+              <Gauge size={16} className="text-gray-400"/>
+              Rate Limits
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(provider.capabilities.usesModel ? ['requestsPerMinute', 'tokensPerMinute'] as const : ['requestsPerMinute'] as const).map(field => (
+                <div key={field}>
+                  <span className="block text-xs text-gray-500 mb-1">
+                    {field === 'requestsPerMinute' ? 'Requests per minute' : 'Tokens per minute'}
+                  </span>
                   <input
-                    type="password"
-                    value={localConfig.apiKey}
-                    onChange={(e) => setLocalConfig({ ...localConfig, apiKey: e.target.value })}
-                    placeholder="sk-..."
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step={field === 'requestsPerMinute' ? 1 : 1000}
+                    value={localConfig.rateLimits[field] || ''}
+                    onChange={(e) => updateRateLimit(field, e.target.value)}
+                    placeholder="No limit"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
                   />
                 </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Requests to {provider.name} are spread out to stay within these budgets, shared by all pages. Limits
+              reported by the server and Retry-After on 429 answers are always respected.
+            </p>
+          </div>
 
-                <div>
-                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-                    <Box size={16} className="text-gray-400"/>
-                    Model Name
-                  </label>
+          {/* Request size, for providers that translate the text layer */}
+          {provider.input === 'text' && (
+            <div>
+              <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+                <span className="flex items-center gap-2">
+                  <Scissors size={16} className="text-gray-400"/>
+                  Max Characters per Request
+                </span>
+                <span className="font-mono text-gray-500">{localConfig.segmentLength}</span>
+              </label>
+              <input
+                type="range"
+                min={MIN_SEGMENT_LENGTH}
+                max={MAX_SEGMENT_LENGTH}
+                step={100}
+                value={localConfig.segmentLength}
+                onChange={(e) => setLocalConfig({ ...localConfig, segmentLength: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Pages are split into sentences and sent in batches up to this size. Lower it if long pages fail.
+              </p>
+            </div>
+          )}
+
+          {/* Hybrid mode, for vision providers */}
+          {provider.input === 'image' && (
+            <div>
+              <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+                <span className="flex items-center gap-2">
+                  <FileText size={16} className="text-gray-400"/>
+                  Use PDF Text Layer
+                </span>
+                <input
+                  type="checkbox"
+                  checked={localConfig.hybridText}
+                  onChange={(e) => setLocalConfig({ ...localConfig, hybridText: e.target.checked })}
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </label>
+              <p className="text-xs text-gray-500">
+                Sends the page's embedded text along with the image, so small print and numbers are read exactly.
+                Scanned pages without a text layer are sent as images only. Uses more input tokens.
+              </p>
+            </div>
+          )}
+
+          {/* Streaming, for providers that can send their answer as it is generated */}
+          {provider.capabilities.streaming && (
+            <div>
+              <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+                <span className="flex items-center gap-2">
+                  <Activity size={16} className="text-gray-400"/>
+                  Stream Output
+                </span>
+                <input
+                  type="checkbox"
+                  checked={localConfig.streamOutput}
+                  onChange={(e) => setLocalConfig({ ...localConfig, streamOutput: e.target.checked })}
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </label>
+              <p className="text-xs text-gray-500">
+                Shows each page's translation while it is being written. Turn it off if your endpoint or proxy
+                doesn't support streamed responses.
+              </p>
+            </div>
+          )}
+
+          {/* Page image, for vision providers */}
+          {provider.input === 'image' && (
+            <div className="space-y-3">
+              <div>
+                <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+                  <span className="flex items-center gap-2">
+                    <ImageIcon size={16} className="text-gray-400"/>
+                    Image Resolution
+                  </span>
+                  <span className="font-mono text-gray-500">{localConfig.render.maxDimension}px</span>
+                </label>
+                <input
+                  type="range"
+                  min={MIN_RENDER_DIMENSION}
+                  max={MAX_RENDER_DIMENSION}
+                  step={128}
+                  value={localConfig.render.maxDimension}
+                  onChange={(e) => updateRender({ maxDimension: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div>
+                <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+                  <span className="pl-6">JPEG Quality</span>
+                  <span className="font-mono text-gray-500">{Math.round(localConfig.render.imageQuality * 100)}%</span>
+                </label>
+                <input
+                  type="range"
+                  min={0.3}
+                  max={0.95}
+                  step={0.05}
+                  value={localConfig.render.imageQuality}
+                  onChange={(e) => updateRender({ imageQuality: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Longest side and compression of the page image sent to {provider.name}. Higher values read small print
+                  better but make larger requests; lower them if requests fail with payload errors.
+                </p>
+              </div>
+              <div>
+                <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+                  <span className="flex items-center gap-2">
+                    <Rows3 size={16} className="text-gray-400"/>
+                    Split Dense Pages
+                  </span>
                   <input
-                    type="text"
-                    value={localConfig.modelName}
-                    onChange={(e) => setLocalConfig({ ...localConfig, modelName: e.target.value })}
-                    placeholder="gpt-4o"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    type="checkbox"
+                    checked={localConfig.render.tiling === 'auto'}
+                    onChange={(e) => updateRender({ tiling: e.target.checked ? 'auto' : 'off' })}
+                    className="w-4 h-4 accent-blue-600"
                   />
-                </div>
+                </label>
+                <p className="text-xs text-gray-500">
+                  Pages with a lot of text, or taller than A4, are cut into up to 4 overlapping strips that are
+                  translated separately and joined. Takes one request per strip.
+                </p>
               </div>
-            </>
-          ) : (
-            <>
-              {/* DeepLX Settings */}
-              <div className="space-y-4 animate-fade-in">
-                <div className="bg-purple-50 border border-purple-100 rounded-lg p-3 text-xs text-purple-800 mb-2">
-                  <strong>Note:</strong> DeepLX is text-only. Layout, tables, and images will not be visually preserved as well as Vision models.
-                </div>
+            </div>
+          )}
 
-                <div>
-                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-                    <Server size={16} className="text-gray-400"/>
-                    DeepLX Endpoint
-                  </label>
-                  <input
-                    type="text"
-                    value={localConfig.baseUrl}
-                    onChange={(e) => setLocalConfig({ ...localConfig, baseUrl: e.target.value })}
-                    placeholder="http://localhost:1188/translate"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all"
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    URL to your DeepLX instance (must handle POST /translate).
-                  </p>
-                </div>
+          {/* Pricing, for models billed per token */}
+          {provider.capabilities.usesModel && !FREE_PROVIDERS.has(localConfig.provider) && priceKey && (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                <DollarSign size={16} className="text-gray-400"/>
+                Price of {localConfig.modelName.trim()}
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['input', 'output'] as const).map(field => (
+                  <div key={field}>
+                    <span className="block text-xs text-gray-500 mb-1">
+                      {field === 'input' ? 'Input' : 'Output'} (USD / 1M tokens)
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={localConfig.modelPrices[priceKey]?.[field] ?? ''}
+                      onChange={(e) => updateModelPrice(field, e.target.value)}
+                      placeholder={defaultPrice ? String(defaultPrice[field]) : 'Unknown'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Used for cost estimates and the job report. Leave empty to use the list price
+                {defaultPrice ? '' : ' (not known for this model)'}.
+              </p>
+            </div>
+          )}
 
-                <div>
+          {/* Translation Cache */}
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+              <span className="flex items-center gap-2">
+                <Database size={16} className="text-gray-400"/>
+                Translation Cache
+              </span>
+              <input
+                type="checkbox"
+                checked={localConfig.cacheEnabled}
+                onChange={(e) => setLocalConfig({ ...localConfig, cacheEnabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-600"
+              />
+            </label>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>
+                Reuse translations of identical pages.
+                {cacheStats && ` ${cacheStats.entries} pages cached (${formatBytes(cacheStats.bytes)}).`}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="flex items-center gap-1 text-red-600 hover:text-red-700 disabled:text-gray-300 disabled:cursor-not-allowed shrink-0 ml-2"
+              >
+                <Trash2 size={12} />
+                Clear cache
+              </button>
+            </div>
+          </div>
+
+          {/* Provider Settings, generated from the provider's field schema */}
+          <div key={provider.id} className="space-y-4 animate-fade-in">
+            {provider.notice && (
+              <div className={`${accent.notice} border rounded-lg p-3 text-xs mb-2`}>
+                <strong>Note:</strong> {provider.notice}
+              </div>
+            )}
+
+            {provider.fields.map(field => {
+              const Icon = FIELD_ICONS[field.icon];
+              return (
+                <div key={field.key}>
                   <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-                    <Key size={16} className="text-gray-400"/>
-                    Access Token (Optional)
+                    <Icon size={16} className="text-gray-400"/>
+                    {field.label}
                   </label>
                   <input
-                    type="password"
-                    value={localConfig.apiKey}
-                    onChange={(e) => setLocalConfig({ ...localConfig, apiKey: e.target.value })}
-                    placeholder="Leave empty if not required"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all font-mono"
+                    type={field.type}
+                    value={localConfig[field.key]}
+                    onChange={(e) => setLocalConfig({ ...localConfig, [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 ${accent.focus} outline-none transition-all ${field.type === 'password' ? 'font-mono' : ''}`}
                   />
+                  {field.help && <p className="text-xs text-gray-500 mt-1">{field.help}</p>}
                 </div>
-              </div>
-            </>
-          )}
+              );
+            })}
+          </div>
 
         </div>
 
         <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-between items-center">
-          <button 
-            onClick={handleReset}
-            className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-800 transition-colors"
-          >
-            <RotateCcw size={14} />
-            Reset
-          </button>
+          <div className="flex items-center gap-4">
+            <button 
+              onClick={handleReset}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-800 transition-colors"
+            >
+              <RotateCcw size={14} />
+              Reset
+            </button>
+            {onDelete && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Trash2 size={14} />
+                Delete Profile
+              </button>
+            )}
+          </div>
           <button
             onClick={handleSave}
-            className={`flex items-center gap-2 text-white px-5 py-2 rounded-lg font-medium transition-colors shadow-sm hover:shadow-md active:transform active:scale-95 ${
-              localConfig.provider === 'deeplx' 
-                ? 'bg-purple-600 hover:bg-purple-700' 
-                : 'bg-blue-600 hover:bg-blue-700'
-            }`}
+            className={`flex items-center gap-2 text-white px-5 py-2 rounded-lg font-medium transition-colors shadow-sm hover:shadow-md active:transform active:scale-95 ${accent.button}`}
           >
             <Save size={16} />
             Save
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { ThrottleNotice } from '../types';
+
+interface ThrottleIndicatorProps {
+  notices: ThrottleNotice[];
+}
+
+const describe = ({ label, reason }: ThrottleNotice, seconds: number): string => {
+  switch (reason) {
+    case 'rate-limited':
+      return `${label} is rate limiting requests, retrying in ${seconds}s`;
+    case 'server-limit':
+      return `${label} rate limit reached, continuing in ${seconds}s`;
+    default:
+      return `Pacing requests to ${label} to stay within your limits (${seconds}s)`;
+  }
+};
+
+// Shows the longest wait while requests are held back by a rate limit, counting down
+export const ThrottleIndicator: React.FC<ThrottleIndicatorProps> = ({ notices }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (notices.length === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [notices]);
+
+  const notice = notices
+    .filter(entry => entry.until > now)
+    .reduce<ThrottleNotice | null>((longest, entry) => (!longest || entry.until > longest.until ? entry : longest), null);
+  if (!notice) return null;
+
+  return (
+    <span className="flex items-center gap-1.5 text-amber-600 text-sm font-medium" title="Requests are waiting for a rate limit">
+      <Hourglass size={14} />
+      {describe(notice, Math.ceil((notice.until - now) / 1000))}
+    </span>
+  );
+};
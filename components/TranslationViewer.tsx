@@ -1,164 +1,96 @@
-import React, { useEffect, useRef } from 'react';
-import { TranslatedPage } from '../types';
-import { Download, ChevronLeft, ChevronRight, RefreshCw, FileCheck } from 'lucide-react';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThrottleNotice, TranslatedPage, TranslationSegment } from '../types';
+import { Download, ChevronLeft, ChevronRight, RefreshCw, FileCheck, RotateCw, Play, PauseCircle, SkipForward, Loader2, AlertTriangle, BarChart3 } from 'lucide-react';
+import { getLanguage } from '../services/languages';
+import { JobState } from '../services/jobController';
+import { JobControls } from './JobControls';
+import { ThrottleIndicator } from './ThrottleIndicator';
+import { ExportMenu, ExportChoice } from './ExportMenu';
+import { sanitizeHtml } from '../services/htmlSanitizer';
+import { TRANSLATED_CONTENT_CSS } from './translatedContentStyles';
+import { exportDocument } from '../services/documentExportService';
+import { getProvider } from '../services/providers';
+import { ACCENT_STYLES } from './providerStyles';
+
+// Index of the segment whose source lines contain the point (fractions of the page), or null
+const segmentAt = (segments: TranslationSegment[], x: number, y: number): number | null => {
+  const index = segments.findIndex(segment => segment.boxes.some(box =>
+    x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height
+  ));
+  return index === -1 ? null : index;
+};
 
 interface TranslationViewerProps {
   pages: TranslatedPage[];
-  onDownload: () => void;
+  targetLang: string;
+  documentName?: string;
   onReset: () => void;
+  onRetryPage: (pageIndex: number) => void;
+  onRequestOriginal: (pageIndex: number) => void; // Renders the original of a page that was never rendered
+  onRetryFailed: () => void;
+  onResumeCancelled: () => void;
+  onShowReport?: () => void; // Reopens the report of the last job, once it has finished
+  jobState: JobState | 'idle';
+  throttling: ThrottleNotice[]; // Rate limits requests are waiting for
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
 }
 
-export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onDownload, onReset }) => {
+export const TranslationViewer: React.FC<TranslationViewerProps> = ({
+  pages, targetLang, documentName, onReset, onRetryPage, onRequestOriginal, onRetryFailed, onResumeCancelled,
+  onShowReport, jobState, throttling, onPause, onResume, onCancel
+}) => {
   const [activePageIndex, setActivePageIndex] = React.useState(0);
   const contentRef = useRef<HTMLDivElement>(null);
-  const [isGeneratingPdf, setIsGeneratingPdf] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
   const [downloadStatus, setDownloadStatus] = React.useState('');
+  // Sentence under the pointer on either side, highlighted on both
+  const [activeSegment, setActiveSegment] = React.useState<number | null>(null);
 
   const activePage = pages[activePageIndex];
+  const targetLanguage = getLanguage(targetLang);
+  // Model output is untrusted: only allow-listed markup reaches the DOM
+  const sanitizedHtml = useMemo(() => sanitizeHtml(activePage?.translatedHtml || ''), [activePage?.translatedHtml]);
+  const sanitizedPartialHtml = useMemo(() => sanitizeHtml(activePage?.partialHtml || ''), [activePage?.partialHtml]);
+  const failedCount = pages.filter(p => p.status === 'error').length;
+  const cancelledCount = pages.filter(p => p.status === 'cancelled').length;
+  const isJobRunning = jobState !== 'idle';
+  const segments = activePage?.status === 'completed' ? activePage.segments || [] : [];
+  const highlighted = activeSegment !== null ? segments[activeSegment] : undefined;
 
-  const handleDownloadPDF = async () => {
-    setIsGeneratingPdf(true);
-    setDownloadStatus('Initializing PDF engine...');
-    
-    try {
-      const doc = new jsPDF({
-        orientation: 'p',
-        unit: 'mm',
-        format: 'a4',
-      });
-
-      setDownloadStatus('Loading Chinese fonts (this may take a moment)...');
-
-      // Try to load a Chinese font to support text rendering. 
-      // Using Noto Sans CJK SC from a reliable raw source.
-      try {
-        const fontUrl = 'https://raw.githubusercontent.com/googlefonts/noto-cjk/main/Sans/OTF/Simplified/NotoSansCJKsc-Regular.otf';
-        const response = await fetch(fontUrl);
-        if (response.ok) {
-          const buffer = await response.arrayBuffer();
-          const binary = new Uint8Array(buffer).reduce((data, byte) => data + String.fromCharCode(byte), '');
-          const base64Font = window.btoa(binary);
-          
-          doc.addFileToVFS('NotoSansCJKsc-Regular.otf', base64Font);
-          doc.addFont('NotoSansCJKsc-Regular.otf', 'NotoSansSC', 'normal');
-          doc.setFont('NotoSansSC');
-        } else {
-          console.warn("Could not fetch font, falling back to standard fonts (Chinese may not render correctly in text mode).");
-        }
-      } catch (fontError) {
-        console.warn("Font loading failed, proceeding with image-based fallback where possible.", fontError);
-      }
-
-      setDownloadStatus('Generating pages...');
+  useEffect(() => {
+    setActiveSegment(null);
+  }, [activePageIndex]);
 
-      // Add Title Page
-      doc.setFontSize(20);
-      // Check if font was added, otherwise use default
-      if (doc.getFontList()['NotoSansSC']) {
-        doc.setFont('NotoSansSC');
-      }
-      doc.text("Translated Document", 105, 20, { align: "center" });
-      doc.setFontSize(12);
-      doc.text("Generated by PDF Translate Pro", 105, 30, { align: "center" });
-      doc.addPage();
+  // Skipped pages are shown as originals, rendered when first viewed
+  useEffect(() => {
+    if (activePage?.status === 'skipped' && !activePage.originalImage) onRequestOriginal(activePageIndex);
+  }, [activePageIndex, activePage?.status, activePage?.originalImage]);
 
-      // We use a temporary container to render each page
-      const container = document.createElement('div');
-      container.style.position = 'absolute';
-      container.style.top = '-9999px';
-      container.style.width = '210mm'; // A4 width
-      // Ensure height is auto to capture full content
-      container.style.minHeight = '297mm'; 
-      container.style.height = 'auto';
-      container.style.padding = '20px';
-      container.style.background = 'white';
-      container.style.overflow = 'visible'; // Prevent clipping
-      // Ensure the font is available in the DOM for html2canvas capture
-      container.style.fontFamily = '"Inter", "Noto Sans SC", "SimSun", "Arial", sans-serif'; 
-      document.body.appendChild(container);
-
-      // Inject styles into the container for PDF generation consistency
-      const style = document.createElement('style');
-      style.innerHTML = `
-        table { width: 100%; border-collapse: collapse; margin-bottom: 1em; }
-        th, td { border: 1px solid #000; padding: 6px; text-align: left; font-size: 12px; }
-        th { background-color: #f0f0f0; font-weight: bold; }
-        img { max-width: 100%; height: auto; }
-        sup { vertical-align: super; font-size: smaller; }
-        sub { vertical-align: sub; font-size: smaller; }
-        .image-placeholder { padding: 20px; border: 1px dashed #ccc; background: #f9f9f9; text-align: center; color: #666; font-style: italic; }
-        /* Ensure no overflow issues */
-        * { box-sizing: border-box; }
-      `;
-      container.appendChild(style);
-
-      const pdfPageWidth = doc.internal.pageSize.getWidth();
-      const pdfPageHeight = doc.internal.pageSize.getHeight();
-
-      for (let i = 0; i < pages.length; i++) {
-         if (i > 0) doc.addPage();
-         
-         setDownloadStatus(`Processing page ${i + 1} of ${pages.length}...`);
-         const page = pages[i];
-         
-         // Render HTML into the container
-         // Create a wrapper div for the content
-         const contentDiv = document.createElement('div');
-         contentDiv.innerHTML = page.translatedHtml;
-         container.appendChild(contentDiv);
-         
-         // Wait a brief moment for images/styles to settle
-         await new Promise(resolve => setTimeout(resolve, 100));
-
-         // Use html2canvas to snapshot the element. 
-         const canvas = await html2canvas(container, {
-           scale: 2, // Higher scale for better quality
-           useCORS: true,
-           logging: false,
-           width: 794, // A4 width in px at 96dpi (approx)
-           windowWidth: 1024, // Ensure viewport is wide enough
-           height: container.scrollHeight // Capture full height explicitly
-         });
-
-         // Balanced quality setting (0.75) to maintain clarity while reducing PDF file size
-         const imgData = canvas.toDataURL('image/jpeg', 0.75);
-         const imgProps = doc.getImageProperties(imgData);
-         
-         // Logic to Scale-to-Fit Page
-         // 1. Calculate the dimensions if we fit by width
-         const widthRatio = pdfPageWidth / imgProps.width;
-         let finalWidth = pdfPageWidth;
-         let finalHeight = imgProps.height * widthRatio;
-         let xPos = 0;
-         let yPos = 0;
-
-         // 2. If the resulting height is taller than the page, fit by height instead
-         if (finalHeight > pdfPageHeight) {
-            const heightRatio = pdfPageHeight / imgProps.height;
-            finalHeight = pdfPageHeight;
-            finalWidth = imgProps.width * heightRatio;
-            // Center horizontally
-            xPos = (pdfPageWidth - finalWidth) / 2;
-         }
-         
-         doc.addImage(imgData, 'JPEG', xPos, yPos, finalWidth, finalHeight);
-         
-         // Clear content for next page
-         container.removeChild(contentDiv);
-      }
+  const handleOriginalHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (segments.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setActiveSegment(segmentAt(segments, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height));
+  };
 
-      document.body.removeChild(container);
-      
-      setDownloadStatus('Saving file...');
-      doc.save('translated_document.pdf');
+  const handleTranslationHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (segments.length === 0) return;
+    const segment = (e.target as HTMLElement).closest('[data-segment]');
+    setActiveSegment(segment ? Number(segment.getAttribute('data-segment')) : null);
+  };
 
+  const handleExport = async (choice: ExportChoice) => {
+    setIsExporting(true);
+    setDownloadStatus(choice.format === 'pdf' ? 'Initializing PDF engine...' : '');
+    
+    try {
+      await exportDocument({ ...choice, pages, targetLang, documentName, onStatus: setDownloadStatus });
     } catch (e) {
-      console.error("PDF Gen Error", e);
-      alert("Could not generate PDF. Error: " + (e instanceof Error ? e.message : String(e)));
+      console.error("Export Error", e);
+      alert("Could not export the document. Error: " + (e instanceof Error ? e.message : String(e)));
     } finally {
-      setIsGeneratingPdf(false);
+      setIsExporting(false);
       setDownloadStatus('');
     }
   };
@@ -179,6 +111,49 @@ export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onD
           <span className="text-sm text-gray-500">
             Page {activePageIndex + 1} of {pages.length}
           </span>
+          {isJobRunning && (
+            <>
+              <div className="h-4 w-px bg-gray-300"></div>
+              <JobControls jobState={jobState} onPause={onPause} onResume={onResume} onCancel={onCancel} />
+              <ThrottleIndicator notices={throttling} />
+            </>
+          )}
+          {!isJobRunning && cancelledCount > 0 && (
+            <>
+              <div className="h-4 w-px bg-gray-300"></div>
+              <button
+                onClick={onResumeCancelled}
+                className="flex items-center gap-2 text-green-600 hover:text-green-700 text-sm font-medium transition-colors"
+              >
+                <Play size={16} />
+                Resume translation ({cancelledCount} cancelled)
+              </button>
+            </>
+          )}
+          {!isJobRunning && failedCount > 0 && (
+            <>
+              <div className="h-4 w-px bg-gray-300"></div>
+              <button
+                onClick={onRetryFailed}
+                className="flex items-center gap-2 text-red-600 hover:text-red-700 text-sm font-medium transition-colors"
+              >
+                <RotateCw size={16} />
+                Retry all failed pages ({failedCount})
+              </button>
+            </>
+          )}
+          {onShowReport && (
+            <>
+              <div className="h-4 w-px bg-gray-300"></div>
+              <button
+                onClick={onShowReport}
+                className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+              >
+                <BarChart3 size={16} />
+                Job report
+              </button>
+            </>
+          )}
         </div>
 
         <div className="flex items-center gap-3">
@@ -200,22 +175,15 @@ export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onD
 
           <div className="h-4 w-px bg-gray-300 mx-2"></div>
 
-          <button
-            onClick={handleDownloadPDF}
-            disabled={isGeneratingPdf}
-            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all text-sm font-medium disabled:opacity-70 w-48 justify-center"
-          >
-            {isGeneratingPdf ? (
-                <div className="h-4 w-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-            ) : (
-                <Download size={16} />
-            )}
-            {isGeneratingPdf ? (downloadStatus ? 'Processing...' : 'Building PDF...') : 'Download PDF'}
-          </button>
+          <ExportMenu
+            isBusy={isExporting}
+            busyLabel={downloadStatus ? 'Processing...' : 'Exporting...'}
+            onExport={handleExport}
+          />
         </div>
       </div>
       
-      {isGeneratingPdf && downloadStatus && (
+      {isExporting && downloadStatus && (
         <div className="absolute top-16 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white px-4 py-2 rounded-full text-sm shadow-lg z-50 animate-fade-in">
           {downloadStatus}
         </div>
@@ -231,11 +199,20 @@ export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onD
               Original
             </div>
             {activePage?.originalImage ? (
-               <img 
-                 src={activePage.originalImage} 
-                 alt={`Page ${activePage.pageNumber}`}
-                 className="w-full h-auto block"
-               />
+              <div className="relative" onMouseMove={handleOriginalHover} onMouseLeave={() => setActiveSegment(null)}>
+                <img 
+                  src={activePage.originalImage} 
+                  alt={`Page ${activePage.pageNumber}`}
+                  className="w-full h-auto block"
+                />
+                {highlighted?.boxes.map((box, i) => (
+                  <div
+                    key={i}
+                    className="absolute bg-yellow-300/40 ring-1 ring-yellow-400 rounded-sm pointer-events-none"
+                    style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                  />
+                ))}
+              </div>
             ) : (
               <div className="h-full flex items-center justify-center text-gray-400">
                 Loading page...
@@ -247,48 +224,69 @@ export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onD
         {/* Right: Translated */}
         <div className="w-1/2 bg-white overflow-y-auto p-8">
           <div className="max-w-full bg-white min-h-[800px] relative border border-gray-100 shadow-sm rounded-sm p-8 prose prose-sm max-w-none prose-headings:text-gray-800 prose-p:text-gray-600">
-             <style>{`
-              .pdf-translated-content table {
-                width: 100%;
-                border-collapse: collapse;
-                margin-top: 1em;
-                margin-bottom: 1em;
-                border: 1px solid #e2e8f0;
-              }
-              .pdf-translated-content th, .pdf-translated-content td {
-                border: 1px solid #cbd5e1;
-                padding: 8px;
-                text-align: left;
-              }
-              .pdf-translated-content th {
-                background-color: #f1f5f9;
-                font-weight: 600;
-              }
-              .image-placeholder {
-                 background: #f9fafb;
-                 border: 1px dashed #cbd5e1;
-                 border-radius: 8px;
-                 padding: 24px;
-                 text-align: center;
-                 color: #6b7280;
-                 margin: 16px 0;
-                 font-size: 0.9em;
-              }
-              /* Error state styling */
-              .error-container {
-                padding: 1rem;
-                border: 1px solid #fecaca;
-                background-color: #fef2f2;
-                border-radius: 0.375rem;
-                color: #991b1b;
-              }
-            `}</style>
+             <style>{TRANSLATED_CONTENT_CSS}</style>
+             {highlighted && (
+               <style>{`.pdf-translated-content [data-segment="${activeSegment}"] { background-color: rgb(253 224 71 / 0.5); border-radius: 2px; }`}</style>
+             )}
 
-            <div className="absolute top-0 right-0 bg-green-600 text-white text-xs px-3 py-1 rounded-bl-lg z-10 font-semibold uppercase tracking-wider">
-              Chinese Translation
+            <div className="absolute top-0 right-0 flex z-10 rounded-bl-lg overflow-hidden">
+              {activePage?.route && (
+                <div
+                  title={`Auto routing: ${activePage.route.reason}`}
+                  className={`${ACCENT_STYLES[getProvider(activePage.route.provider).accent].solid} text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider`}
+                >
+                  {activePage.route.pipeline === 'text' ? 'Text' : 'Vision'} · {getProvider(activePage.route.provider).name}
+                </div>
+              )}
+              {activePage?.profile && (
+                <div
+                  title={`Translated with the settings profile "${activePage.profile}"`}
+                  className="bg-indigo-500 text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider max-w-[12rem] truncate"
+                >
+                  {activePage.profile}
+                </div>
+              )}
+              {activePage?.tileCount && activePage.tileCount > 1 && (
+                <div
+                  title={`This page was dense and was translated in ${activePage.tileCount} overlapping strips`}
+                  className="bg-slate-500 text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider"
+                >
+                  {activePage.tileCount} Strips
+                </div>
+              )}
+              {activePage?.status === 'completed' && activePage.incomplete && (
+                <div
+                  title="The model's output was cut off and could not be completed"
+                  className="bg-orange-500 text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider"
+                >
+                  Incomplete
+                </div>
+              )}
+              {activePage?.fromCache && (
+                <div
+                  title="This page was served from the local translation cache"
+                  className="bg-amber-500 text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider"
+                >
+                  Cached
+                </div>
+              )}
+              <div className="bg-green-600 text-white text-xs px-3 py-1 font-semibold uppercase tracking-wider">
+                {targetLanguage.name} Translation
+              </div>
             </div>
             
-            {activePage?.status === 'translating' ? (
+            {activePage?.status === 'translating' && sanitizedPartialHtml ? (
+              <div>
+                <div
+                  dangerouslySetInnerHTML={{ __html: sanitizedPartialHtml }}
+                  className="pdf-translated-content font-[system-ui] leading-relaxed"
+                />
+                <p className="flex items-center gap-2 mt-4 text-sm text-gray-400 not-prose">
+                  <Loader2 size={14} className="animate-spin" />
+                  Translating...
+                </p>
+              </div>
+            ) : activePage?.status === 'translating' ? (
               <div className="flex flex-col items-center justify-center h-[600px] space-y-4">
                  <div className="relative w-20 h-20">
                     <div className="absolute top-0 left-0 w-full h-full border-4 border-blue-100 rounded-full"></div>
@@ -325,19 +323,79 @@ export const TranslationViewer: React.FC<TranslationViewerProps> = ({ pages, onD
                 )}
 
                 <button 
-                  onClick={() => {
-                     alert("Please open Settings (Gear Icon top right) to fix your API Key or URL, then re-upload the document.");
-                  }}
-                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-sm"
+                  onClick={() => onRetryPage(activePageIndex)}
+                  disabled={isJobRunning}
+                  className="flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-sm"
+                >
+                  <RotateCw size={16} />
+                  Retry Page
+                </button>
+                <p className="text-xs text-gray-400 mt-3">
+                  Changed your API Key or URL in Settings? Retrying uses the current settings.
+                </p>
+              </div>
+            ) : activePage?.status === 'skipped' ? (
+              <div className="flex flex-col items-center justify-center h-[600px] text-center p-8">
+                <div className="bg-gray-100 text-gray-500 p-4 rounded-full mb-4">
+                   <SkipForward size={24} />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Page Not Selected</h3>
+                <p className="text-gray-600 mb-6 max-w-md">
+                  This page was skipped when the translation started. The original is shown on the left.
+                </p>
+                <button
+                  onClick={() => onRetryPage(activePageIndex)}
+                  disabled={isJobRunning}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-sm"
                 >
-                  Resolve Issue
+                  <Play size={16} />
+                  Translate Page
+                </button>
+              </div>
+            ) : activePage?.status === 'cancelled' ? (
+              <div className="flex flex-col items-center justify-center h-[600px] text-center p-8">
+                <div className="bg-amber-100 text-amber-600 p-4 rounded-full mb-4">
+                   <PauseCircle size={24} />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Translation Cancelled</h3>
+                <p className="text-gray-600 mb-6 max-w-md">
+                  This page was not translated because the job was cancelled.
+                </p>
+                <button
+                  onClick={() => onRetryPage(activePageIndex)}
+                  disabled={isJobRunning}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-sm"
+                >
+                  <Play size={16} />
+                  Translate Page
                 </button>
               </div>
             ) : (
-              <div 
-                dangerouslySetInnerHTML={{ __html: activePage.translatedHtml }} 
-                className="pdf-translated-content font-[system-ui] leading-relaxed"
-              />
+              <>
+                {activePage?.incomplete && (
+                  <div className="not-prose mt-4 mb-6 flex items-start gap-3 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                    <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      This page looks incomplete: the model stopped before finishing it, even after being asked to continue.
+                      The end of the page may be missing. Try again, or turn on "Split Dense Pages" for this provider in Settings.
+                    </div>
+                    <button
+                      onClick={() => onRetryPage(activePageIndex)}
+                      disabled={isJobRunning}
+                      className="flex items-center gap-1.5 shrink-0 px-3 py-1 rounded-md bg-orange-600 hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium transition-colors"
+                    >
+                      <RotateCw size={14} />
+                      Retry
+                    </button>
+                  </div>
+                )}
+                <div 
+                  dangerouslySetInnerHTML={{ __html: sanitizedHtml }} 
+                  onMouseOver={handleTranslationHover}
+                  onMouseLeave={() => setActiveSegment(null)}
+                  className="pdf-translated-content font-[system-ui] leading-relaxed"
+                />
+              </>
             )}
           </div>
         </div>
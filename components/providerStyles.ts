@@ -0,0 +1,30 @@
+import { TranslationProvider } from '../types';
+
+// Tailwind classes per provider accent. Spelled out in full so the class names stay greppable.
+export interface AccentStyles {
+  solid: string;
+  button: string;
+  text: string;
+  border: string;
+  focus: string;
+  notice: string;
+}
+
+export const ACCENT_STYLES: Record<TranslationProvider['accent'], AccentStyles> = {
+  blue: {
+    solid: 'bg-blue-600',
+    button: 'bg-blue-600 hover:bg-blue-700',
+    text: 'text-blue-600',
+    border: 'border-blue-600',
+    focus: 'focus:ring-blue-500 focus:border-blue-500',
+    notice: 'bg-blue-50 border-blue-100 text-blue-800',
+  },
+  purple: {
+    solid: 'bg-purple-600',
+    button: 'bg-purple-600 hover:bg-purple-700',
+    text: 'text-purple-600',
+    border: 'border-purple-600',
+    focus: 'focus:ring-purple-500 focus:border-purple-500',
+    notice: 'bg-purple-50 border-purple-100 text-purple-800',
+  },
+};
@@ -0,0 +1,38 @@
+// Styles for translated page HTML. Shared by the viewer and the HTML/EPUB exports so
+// exported files look like what the user reviewed.
+export const TRANSLATED_CONTENT_CSS = `
+  .pdf-translated-content table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-top: 1em;
+    margin-bottom: 1em;
+    border: 1px solid #e2e8f0;
+  }
+  .pdf-translated-content th, .pdf-translated-content td {
+    border: 1px solid #cbd5e1;
+    padding: 8px;
+    text-align: left;
+  }
+  .pdf-translated-content th {
+    background-color: #f1f5f9;
+    font-weight: 600;
+  }
+  .image-placeholder {
+     background: #f9fafb;
+     border: 1px dashed #cbd5e1;
+     border-radius: 8px;
+     padding: 24px;
+     text-align: center;
+     color: #6b7280;
+     margin: 16px 0;
+     font-size: 0.9em;
+  }
+  /* Error state styling */
+  .error-container {
+    padding: 1rem;
+    border: 1px solid #fecaca;
+    background-color: #fef2f2;
+    border-radius: 0.375rem;
+    color: #991b1b;
+  }
+`;
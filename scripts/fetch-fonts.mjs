@@ -0,0 +1,51 @@
+// Downloads the export fonts into public/fonts so the app can run without network access.
+// Run once on a connected machine (npm run fonts); the files are then served and bundled as local assets.
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const GOOGLE_FONTS = 'https://raw.githubusercontent.com/google/fonts/main/ofl';
+
+// Must stay in sync with EXPORT_FONTS in services/languages.ts. TrueType (glyf) builds only:
+// jsPDF can't embed CFF-based OpenType fonts.
+const FONTS = {
+  'NotoSansSC.ttf': `${GOOGLE_FONTS}/notosanssc/NotoSansSC%5Bwght%5D.ttf`,
+  'NotoSansTC.ttf': `${GOOGLE_FONTS}/notosanstc/NotoSansTC%5Bwght%5D.ttf`,
+  'NotoSansJP.ttf': `${GOOGLE_FONTS}/notosansjp/NotoSansJP%5Bwght%5D.ttf`,
+  'NotoSansKR.ttf': `${GOOGLE_FONTS}/notosanskr/NotoSansKR%5Bwght%5D.ttf`,
+  'NotoSans-Regular.ttf': 'https://raw.githubusercontent.com/googlefonts/noto-fonts/main/hinted/ttf/NotoSans/NotoSans-Regular.ttf',
+};
+
+const fontDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'fonts');
+const force = process.argv.includes('--force');
+
+const exists = async (path) => {
+  try {
+    return (await stat(path)).size > 0;
+  } catch {
+    return false;
+  }
+};
+
+await mkdir(fontDir, { recursive: true });
+
+let failed = 0;
+for (const [fileName, url] of Object.entries(FONTS)) {
+  const target = join(fontDir, fileName);
+  if (!force && await exists(target)) {
+    console.log(`${fileName}: already present`);
+    continue;
+  }
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = Buffer.from(await response.arrayBuffer());
+    await writeFile(target, data);
+    console.log(`${fileName}: ${(data.length / 1024 / 1024).toFixed(1)} MB`);
+  } catch (error) {
+    failed++;
+    console.error(`${fileName}: download failed (${error.message}) from ${url}`);
+  }
+}
+
+if (failed > 0) process.exit(1);
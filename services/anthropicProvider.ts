@@ -0,0 +1,141 @@
+import { ApiConfig, PartialOutputHandler, ProviderPageInput, ProviderResult, TranslateOptions, TranslationProvider, UsageMeter } from "../types";
+import { buildVisionPrompt, CONTINUATION_PROMPT } from "./translationPrompt";
+import { joinEndpoint, postJson, postStream, ProviderAnswerError, ProviderRefusalError, recordTokens, RequestOptions, splitDataUrl, withRetries } from "./providerRequest";
+import { generateWithContinuation, GenerateTurn } from "./continuation";
+import { estimateRequestTokens, NO_RATE_LIMITS, rateLimiterFor } from "./rateLimiter";
+
+// Anthropic Messages API with base64 image blocks.
+
+const DEFAULT_ANTHROPIC_URL = 'https://api.anthropic.com';
+const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-5';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicAnswer {
+  text: string;
+  stopReason?: string;
+}
+
+const textOf = (response: any): string => (response.content || [])
+  .filter((block: { type: string }) => block.type === 'text')
+  .map((block: { text: string }) => block.text)
+  .join('');
+
+// Collects the text deltas of a streamed message, reporting the text so far
+const readStream = async (
+  endpoint: string,
+  body: object,
+  options: RequestOptions,
+  onPartial: PartialOutputHandler,
+  meter?: UsageMeter
+): Promise<AnthropicAnswer> => {
+  const answer: AnthropicAnswer = { text: '' };
+  await postStream(endpoint, { ...body, stream: true }, options, event => {
+    if (event.type === 'error') {
+      throw new ProviderAnswerError(`Anthropic API Error: ${event.error?.message || 'stream interrupted'}`);
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      answer.text += event.delta.text;
+      onPartial(answer.text);
+    } else if (event.type === 'message_start') {
+      recordTokens(meter, event.message?.usage?.input_tokens);
+    } else if (event.type === 'message_delta') {
+      answer.stopReason = event.delta?.stop_reason || answer.stopReason;
+      // Output tokens are counted once, in the final delta
+      recordTokens(meter, 0, event.usage?.output_tokens);
+    } else if (event.type === 'message') {
+      // A proxy that ignored `stream` and sent the whole message
+      answer.text = textOf(event);
+      answer.stopReason = event.stop_reason;
+      recordTokens(meter, event.usage?.input_tokens, event.usage?.output_tokens);
+    }
+  });
+  return answer;
+};
+
+const translateWithAnthropic = async (page: ProviderPageInput, config: ApiConfig, { signal, onPartial, meter }: TranslateOptions = {}): Promise<ProviderResult> => {
+  if (!config.apiKey) {
+    throw new Error("Anthropic API Key is missing. Please configure it in settings.");
+  }
+
+  // Accept either the API root or a base that already includes /v1
+  const base = config.baseUrl.trim().replace(/\/+$/, '') || DEFAULT_ANTHROPIC_URL;
+  const endpoint = joinEndpoint(base, base.endsWith('/v1') ? '/messages' : '/v1/messages');
+  const { mimeType, data } = splitDataUrl(page.image);
+  const prompt = buildVisionPrompt(config, page);
+  const limiter = rateLimiterFor(config, 'Anthropic');
+
+  const request = {
+    role: 'user',
+    content: [
+      { type: 'image', source: { type: 'base64', media_type: mimeType, data } },
+      { type: 'text', text: prompt }
+    ]
+  };
+
+  // A continuation replays the answer so far as the assistant's turn and asks for the rest
+  const generate: GenerateTurn = (previous, onTurnPartial) => withRetries(async () => {
+    const body = {
+      model: config.modelName || DEFAULT_CLAUDE_MODEL,
+      max_tokens: 8192,
+      temperature: 0.3,
+      messages: previous
+        ? [request, { role: 'assistant', content: previous }, { role: 'user', content: CONTINUATION_PROMPT }]
+        : [request]
+    };
+    const options = {
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // Required for calls straight from the browser (the key never leaves this machine otherwise)
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      label: 'Anthropic API',
+      signal,
+      limiter
+    };
+
+    let text: string;
+    let stopReason: string | undefined;
+    if (onTurnPartial) {
+      ({ text, stopReason } = await readStream(endpoint, body, options, onTurnPartial, meter));
+    } else {
+      const response = await postJson(endpoint, body, options);
+      recordTokens(meter, response.usage?.input_tokens, response.usage?.output_tokens);
+      text = textOf(response);
+      stopReason = response.stop_reason;
+    }
+
+    if (!text && !previous) {
+      if (stopReason === 'refusal') {
+        throw new ProviderRefusalError("Claude declined to translate this page.");
+      }
+      throw new ProviderRefusalError("Empty response from Anthropic API.");
+    }
+    return { text, truncated: stopReason === 'max_tokens' };
+  }, { label: 'Anthropic', signal, meter, limiter, tokens: estimateRequestTokens(prompt + previous, 1) });
+
+  return generateWithContinuation(generate, onPartial);
+};
+
+export const anthropicProvider: TranslationProvider = {
+  id: 'anthropic',
+  name: 'Claude',
+  tagline: 'Claude Vision (High Accuracy)',
+  accent: 'blue',
+  input: 'image',
+  capabilities: { preservesLayout: true, usesModel: true, streaming: true },
+  defaults: { baseUrl: DEFAULT_ANTHROPIC_URL, apiKey: '', modelName: DEFAULT_CLAUDE_MODEL, render: { maxDimension: 1568, imageQuality: 0.7, tiling: 'auto' }, rateLimits: NO_RATE_LIMITS },
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'API Base URL',
+      type: 'text',
+      icon: 'server',
+      placeholder: DEFAULT_ANTHROPIC_URL,
+      help: 'Change only when going through a proxy or gateway.',
+      required: true
+    },
+    { key: 'apiKey', label: 'Anthropic API Key', type: 'password', icon: 'key', placeholder: 'sk-ant-...', required: true },
+    { key: 'modelName', label: 'Model Name', type: 'text', icon: 'model', placeholder: DEFAULT_CLAUDE_MODEL, required: true }
+  ],
+  translate: translateWithAnthropic
+};
@@ -0,0 +1,91 @@
+import { PartialOutputHandler, ProviderResult } from "../types";
+import { cleanModelHtml } from "./translationPrompt";
+
+// Dense pages can run into a model's output limit. The vision providers then ask for a
+// continuation with the output so far as context, join the parts, and close any tags left open.
+
+// Continuations per page after the first answer; each one can add a full output limit of text
+export const MAX_CONTINUATIONS = 2;
+
+// One answer from the model and whether it stopped at the output limit
+export interface ModelTurn {
+  text: string;
+  truncated: boolean;
+}
+
+// Asks the model for (more of) the page. `previous` is the output so far: empty for the first
+// request, otherwise the request continues it.
+export type GenerateTurn = (previous: string, onPartial?: PartialOutputHandler) => Promise<ModelTurn>;
+
+// Elements with an optional end tag: leaving them open at the end of the output loses nothing
+const OPTIONAL_END_TAGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'caption']);
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'col', 'wbr', 'input', 'meta', 'link', 'source']);
+
+const TAG = /<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>/g;
+
+// Overlap searched when a continuation repeats the end of the previous part
+const MAX_REPEAT = 300;
+const MIN_REPEAT = 12;
+
+// Appends a continuation, dropping a code fence at its start and any text it repeats from the
+// end of the previous part. A continuation that starts the page over replaces it.
+export const joinContinuation = (previous: string, next: string): string => {
+  const text = next.replace(/^\s*```(?:html)?\s*/i, '');
+  const head = previous.trimStart().slice(0, 80);
+  if (head.length >= 40 && text.trimStart().startsWith(head)) return text;
+
+  for (let size = Math.min(MAX_REPEAT, previous.length, text.length); size >= MIN_REPEAT; size--) {
+    if (previous.endsWith(text.slice(0, size))) return previous + text.slice(size);
+  }
+  return previous + text;
+};
+
+export interface RepairedHtml {
+  html: string;
+  closed: string[]; // Elements that were still open at the end, innermost first
+}
+
+// Drops a tag cut off at the end and closes the elements that are still open, in order
+export const repairHtml = (html: string): RepairedHtml => {
+  const text = html.replace(/<[^>]*$/, '').replace(/&[#\w]*$/, '');
+  const open: string[] = [];
+
+  for (const [, closing, name, selfClosing] of text.matchAll(TAG)) {
+    const tag = name.toLowerCase();
+    if (VOID_TAGS.has(tag) || selfClosing) continue;
+    if (!closing) {
+      open.push(tag);
+      continue;
+    }
+    // A closing tag also closes anything opened inside it; stray closing tags are ignored
+    const at = open.lastIndexOf(tag);
+    if (at !== -1) open.length = at;
+  }
+
+  const closed = open.reverse();
+  return { html: text + closed.map(tag => `</${tag}>`).join(''), closed };
+};
+
+// Generates a page, continuing while the model stops at its output limit, and returns the
+// cleaned-up HTML. A page is flagged incomplete when it is still cut off after the last
+// continuation, or ends inside a table, list or other element that needs closing.
+export const generateWithContinuation = async (
+  generate: GenerateTurn,
+  onPartial?: PartialOutputHandler
+): Promise<Required<Pick<ProviderResult, 'html' | 'incomplete'>>> => {
+  let text = '';
+  let truncated = false;
+
+  for (let turn = 0; turn <= MAX_CONTINUATIONS; turn++) {
+    const previous = text;
+    const report = onPartial && ((partial: string) => onPartial(previous ? joinContinuation(previous, partial) : partial));
+    const answer = await generate(previous, report);
+    text = previous ? joinContinuation(previous, answer.text) : answer.text;
+    truncated = answer.truncated;
+    // Nothing more to come, or the model had nothing to add
+    if (!truncated || !answer.text.trim()) break;
+  }
+
+  const { html, closed } = repairHtml(cleanModelHtml(text));
+  return { html, incomplete: truncated || closed.some(tag => !OPTIONAL_END_TAGS.has(tag)) };
+};
@@ -0,0 +1,91 @@
+import { ApiConfig, ApiProvider, ModelPrice } from "../types";
+import { configInput, switchProvider } from "./providers";
+import { DEFAULT_SEGMENT_LENGTH } from "./textSegments";
+import { CHARS_PER_TILE, MAX_TILES } from "./pageTiling";
+
+// Rough request, token and cost estimates shown before a job starts. Real usage depends on how
+// dense the pages are; these are typical values for a page of body text.
+
+// List prices at the time of writing, matched against the model name (first match wins)
+const MODEL_PRICES: { pattern: RegExp; price: ModelPrice }[] = [
+  { pattern: /^gpt-4o-mini/, price: { input: 0.15, output: 0.6 } },
+  { pattern: /^gpt-4o/, price: { input: 2.5, output: 10 } },
+  { pattern: /^gpt-4\.1-nano/, price: { input: 0.1, output: 0.4 } },
+  { pattern: /^gpt-4\.1-mini/, price: { input: 0.4, output: 1.6 } },
+  { pattern: /^gpt-4\.1/, price: { input: 2, output: 8 } },
+  { pattern: /^gemini-2\.5-flash-lite/, price: { input: 0.1, output: 0.4 } },
+  { pattern: /^gemini-2\.5-flash/, price: { input: 0.3, output: 2.5 } },
+  { pattern: /^gemini-2\.5-pro/, price: { input: 1.25, output: 10 } },
+  { pattern: /^gemini-2\.0-flash/, price: { input: 0.1, output: 0.4 } },
+  { pattern: /^claude-haiku-4/, price: { input: 1, output: 5 } },
+  { pattern: /^claude-3-5-haiku/, price: { input: 0.8, output: 4 } },
+  { pattern: /^claude-(sonnet-4|3-7-sonnet)/, price: { input: 3, output: 15 } },
+];
+
+// Self-hosted providers don't bill per token
+export const FREE_PROVIDERS = new Set<ApiProvider>(['deeplx', 'ollama']);
+
+// Typical per-page figures for a vision request
+const IMAGE_TOKENS = 800;
+const PROMPT_TOKENS = 700;
+const TEXT_LAYER_TOKENS = 700; // Hybrid mode
+const OUTPUT_TOKENS = 1500;
+// Characters on a dense page, for text-mode request counts and strips in tiling mode
+const PAGE_CHARS = 3000;
+
+// The built-in list price of a model, if it is one we know
+export const listPrice = (modelName: string): ModelPrice | null => {
+  const name = modelName.trim().toLowerCase();
+  return MODEL_PRICES.find(entry => entry.pattern.test(name))?.price ?? null;
+};
+
+// Prices set in the settings take precedence over list prices
+export const findModelPrice = (modelName: string, overrides: ApiConfig['modelPrices'] = {}): ModelPrice | null => {
+  return overrides[modelName.trim().toLowerCase()] ?? listPrice(modelName);
+};
+
+// What a request costs in USD, or null when the model's price is unknown
+export const tokenCost = (inputTokens: number, outputTokens: number, config: ApiConfig): number | null => {
+  if (FREE_PROVIDERS.has(config.provider)) return 0;
+  const price = findModelPrice(config.modelName, config.modelPrices);
+  return price && (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export interface JobEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // USD; null when the model's price is unknown
+  // Auto routing assumes every page goes to the vision provider, tiling that every page is dense
+  // enough to be split into strips
+  upperBound: boolean;
+}
+
+const estimateForProvider = (pageCount: number, config: ApiConfig): JobEstimate => {
+  const input = configInput(config);
+
+  if (input === 'text') {
+    const perPage = Math.ceil(PAGE_CHARS / (config.segmentLength || DEFAULT_SEGMENT_LENGTH));
+    return {
+      requests: pageCount * perPage, inputTokens: 0, outputTokens: 0, cost: FREE_PROVIDERS.has(config.provider) ? 0 : null, upperBound: false
+    };
+  }
+
+  // Each strip is a request with its own image and prompt; together they write about one page of output
+  const tiles = config.render.tiling === 'auto' ? Math.min(MAX_TILES, Math.ceil(PAGE_CHARS / CHARS_PER_TILE)) : 1;
+  const inputTokens = pageCount * tiles * (IMAGE_TOKENS + PROMPT_TOKENS + (input === 'image+text' ? TEXT_LAYER_TOKENS : 0));
+  const outputTokens = pageCount * OUTPUT_TOKENS;
+  return { requests: pageCount * tiles, inputTokens, outputTokens, cost: tokenCost(inputTokens, outputTokens, config), upperBound: tiles > 1 };
+};
+
+export const estimateJob = (pageCount: number, config: ApiConfig): JobEstimate => {
+  if (config.routingMode === 'auto') {
+    return { ...estimateForProvider(pageCount, switchProvider(config, config.visionProvider)), upperBound: true };
+  }
+  return estimateForProvider(pageCount, config);
+};
+
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return 'Free';
+  return cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+};
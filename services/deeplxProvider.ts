@@ -0,0 +1,151 @@
+import { ApiConfig, PageText, ProviderResult, TranslateOptions, TranslationProvider, TranslationSegment, UsageMeter } from "../types";
+import { toDeepLSourceCode } from "./languages";
+import { ProviderHttpError, withRetries } from "./providerRequest";
+import { estimateRequestTokens, NO_RATE_LIMITS, parseRetryAfter, RateLimiter, rateLimiterFor } from "./rateLimiter";
+import { createLimiter, Limiter } from "./scheduler";
+import { escapeHtml } from "./htmlSanitizer";
+import { needsSpace, renderTextBlocks } from "./textLayout";
+import { DEFAULT_SEGMENT_LENGTH, packSegments, SEGMENT_SEPARATOR, segmentBoxes, splitSegments, TextSegment } from "./textSegments";
+
+// DeepLX: text-only translation of the PDF text layer. Fast; headings, paragraphs and lists are
+// rebuilt from the text layout, but tables and visual layout are not preserved.
+
+const DEFAULT_DEEPLX_ENDPOINT = 'http://localhost:1188/translate';
+
+// Translates one piece of text. DeepLX usually returns { code: 200, data: "translated text" },
+// or sometimes just { data: "..." } or { alternatives: [...] }
+const requestTranslation = (
+  text: string,
+  config: ApiConfig,
+  endpoint: string,
+  limiter: RateLimiter,
+  signal?: AbortSignal,
+  meter?: UsageMeter
+): Promise<string> => {
+  return withRetries(async () => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Add Authorization header if apiKey is provided (custom DeepLX instances)
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        text: text,
+        source_lang: toDeepLSourceCode(config.sourceLang),
+        target_lang: config.targetLang
+      }),
+      signal
+    });
+    limiter.observe(response.headers);
+
+    if (!response.ok) {
+      throw new ProviderHttpError(`DeepLX Error ${response.status}: ${response.statusText}`, response.status, parseRetryAfter(response.headers));
+    }
+
+    const data = await response.json();
+    const translatedText = data.data || data.text || (data.alternatives && data.alternatives[0]);
+
+    if (!translatedText) {
+      throw new Error("Invalid response format from DeepLX");
+    }
+    return translatedText;
+  }, { label: 'DeepLX', signal, backoff: attempt => 1000 * attempt, meter, limiter, tokens: estimateRequestTokens(text) });
+};
+
+// Requests for one page that may be in flight at the same time
+const SEGMENT_CONCURRENCY = 3;
+
+// Translates a batch of segments in one request, one segment per line. If the answer doesn't
+// split back into as many lines, the segments are sent one by one instead.
+const translateChunk = async (
+  chunk: TextSegment[],
+  config: ApiConfig,
+  endpoint: string,
+  limiter: Limiter,
+  rateLimiter: RateLimiter,
+  signal?: AbortSignal,
+  meter?: UsageMeter
+): Promise<string[]> => {
+  const joined = chunk.map(segment => segment.text).join(SEGMENT_SEPARATOR);
+  const translated = await limiter(() => requestTranslation(joined, config, endpoint, rateLimiter, signal, meter));
+  if (chunk.length === 1) return [translated.trim()];
+
+  const lines = translated.split(SEGMENT_SEPARATOR).map(line => line.trim());
+  if (lines.length === chunk.length) return lines;
+
+  console.warn(`DeepLX merged or split lines (${chunk.length} sent, ${lines.length} returned); translating segments separately.`);
+  return Promise.all(chunk.map(segment => limiter(() => requestTranslation(segment.text, config, endpoint, rateLimiter, signal, meter))));
+};
+
+// Translates the page sentence by sentence, batched into requests within the configured length,
+// and reassembles headings, paragraphs and lists with each sentence marked for highlighting
+const translateWithDeepLX = async (pageText: PageText | null, config: ApiConfig, { signal, meter }: TranslateOptions = {}): Promise<ProviderResult> => {
+  const blocks = pageText?.blocks || [];
+  if (blocks.length === 0) {
+    return { html: "<p><i>(No text content found on this page)</i></p>" };
+  }
+
+  // Default DeepLX endpoint if not provided
+  const endpoint = config.baseUrl || DEFAULT_DEEPLX_ENDPOINT;
+  const limit = config.segmentLength || DEFAULT_SEGMENT_LENGTH;
+
+  const segments = splitSegments(blocks, limit);
+  const limiter = createLimiter(SEGMENT_CONCURRENCY);
+  const rateLimiter = rateLimiterFor(config, 'DeepLX');
+  const chunks = packSegments(segments, limit);
+  const translated = (await Promise.all(chunks.map(chunk => translateChunk(chunk, config, endpoint, limiter, rateLimiter, signal, meter)))).flat();
+
+  const pairs: TranslationSegment[] = segments.map((segment, i) => ({
+    source: segment.text,
+    target: translated[i],
+    boxes: segmentBoxes(blocks[segment.block], segment)
+  }));
+
+  const content = renderTextBlocks(blocks, (_, blockIndex) => {
+    let html = '';
+    segments.forEach((segment, i) => {
+      if (segment.block !== blockIndex) return;
+      const target = pairs[i].target;
+      html += `${html && needsSpace(pairs[i - 1].target, target) ? ' ' : ''}<span class="segment" data-segment="${i}">${escapeHtml(target)}</span>`;
+    });
+    return html;
+  });
+
+  // Wrap in simple HTML for the viewer
+  return {
+    html: `
+      <div class="deeplx-translation" style="font-family: sans-serif; line-height: 1.6;">
+        <h3 style="color: #666; border-bottom: 1px solid #eee; padding-bottom: 8px; margin-bottom: 16px; font-size: 0.9em;">
+          Translated by DeepLX (Text Only)
+        </h3>
+        ${content}
+      </div>
+    `,
+    segments: pairs
+  };
+};
+
+export const deeplxProvider: TranslationProvider = {
+  id: 'deeplx',
+  name: 'DeepLX',
+  tagline: 'DeepLX (High Speed)',
+  accent: 'purple',
+  input: 'text',
+  capabilities: { preservesLayout: false, usesModel: false, streaming: false },
+  defaults: { baseUrl: DEFAULT_DEEPLX_ENDPOINT, apiKey: '', modelName: '', render: { maxDimension: 1024, imageQuality: 0.6, tiling: 'off' }, rateLimits: NO_RATE_LIMITS },
+  notice: 'DeepLX is text-only. Layout, tables, and images will not be visually preserved as well as Vision models.',
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'DeepLX Endpoint',
+      type: 'text',
+      icon: 'server',
+      placeholder: DEFAULT_DEEPLX_ENDPOINT,
+      help: 'URL to your DeepLX instance (must handle POST /translate).',
+      required: true
+    },
+    { key: 'apiKey', label: 'Access Token (Optional)', type: 'password', icon: 'key', placeholder: 'Leave empty if not required' }
+  ],
+  translate: (page, config, options) => translateWithDeepLX(page.text, config, options)
+};
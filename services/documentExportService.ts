@@ -0,0 +1,70 @@
+import { TranslatedPage } from "../types";
+import { exportTranslatedPdf, PdfLayout } from "./pdfExportService";
+import { buildDocx } from "./docxExport";
+import { buildMarkdown } from "./markdownExport";
+import { buildStandaloneHtml } from "./htmlExport";
+import { buildEpub, EpubChapterMode } from "./epubExport";
+import { downloadBlob, exportFileName, pagesForExport } from "./exportUtils";
+
+export type ExportFormat = 'pdf' | 'docx' | 'markdown' | 'html' | 'epub';
+
+export interface ExportRequest {
+  format: ExportFormat;
+  pages: TranslatedPage[];
+  targetLang: string;
+  // Name of the source PDF, used for the title and the downloaded file name
+  documentName?: string;
+  skipFailed?: boolean;
+  pdfLayout?: PdfLayout;
+  epubChapters?: EpubChapterMode;
+  onStatus?: (message: string) => void;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  markdown: 'md',
+  html: 'html',
+  epub: 'epub',
+};
+
+export const exportDocument = async ({
+  format,
+  pages,
+  targetLang,
+  documentName,
+  skipFailed = false,
+  pdfLayout = 'translation',
+  epubChapters = 'page',
+  onStatus
+}: ExportRequest) => {
+  const fileName = exportFileName(documentName, EXTENSIONS[format]);
+
+  if (format === 'pdf') {
+    await exportTranslatedPdf({ pages, targetLang, layout: pdfLayout, skipFailed, fileName, onStatus });
+    return;
+  }
+
+  const included = pagesForExport(pages, skipFailed);
+  if (included.length === 0) {
+    throw new Error('No translated pages to export.');
+  }
+  const title = (documentName || 'Translated Document').replace(/\.pdf$/i, '');
+
+  switch (format) {
+    case 'docx':
+      onStatus?.('Building Word document...');
+      downloadBlob(await buildDocx(included, title, targetLang), fileName);
+      break;
+    case 'markdown':
+      downloadBlob(new Blob([buildMarkdown(included, title)], { type: 'text/markdown;charset=utf-8' }), fileName);
+      break;
+    case 'html':
+      downloadBlob(new Blob([buildStandaloneHtml(included, title, targetLang)], { type: 'text/html;charset=utf-8' }), fileName);
+      break;
+    case 'epub':
+      onStatus?.('Packaging EPUB...');
+      downloadBlob(await buildEpub(included, title, targetLang, epubChapters), fileName);
+      break;
+  }
+};
@@ -0,0 +1,234 @@
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { TranslatedPage } from "../types";
+import { getExportFont } from "./languages";
+import { Align, alignOf, isBlockElement, parseTranslatedHtml, untranslatedNotice } from "./exportUtils";
+
+// HTML -> Word document, keeping headings, lists and tables editable.
+
+type Block = Paragraph | Table;
+type ParagraphAlignment = (typeof AlignmentType)[keyof typeof AlignmentType];
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: {};
+  strike?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  color?: string;
+}
+
+const ORDERED_LIST = 'ordered-list';
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS: Record<Align, ParagraphAlignment> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+const INLINE_FORMATS: Record<string, RunFormat> = {
+  strong: { bold: true },
+  b: { bold: true },
+  em: { italics: true },
+  i: { italics: true },
+  u: { underline: {} },
+  s: { strike: true },
+  sup: { superScript: true },
+  sub: { subScript: true },
+};
+
+const textRuns = (nodes: Node[], format: RunFormat = {}): TextRun[] => {
+  return nodes.flatMap(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/\s+/g, ' ');
+      return text ? [new TextRun({ text, ...format })] : [];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'br') return [new TextRun({ text: '', break: 1 })];
+    return textRuns(Array.from(element.childNodes), { ...format, ...INLINE_FORMATS[tag] });
+  });
+};
+
+// Whitespace-only runs between blocks would otherwise become empty paragraphs
+const trimmedRuns = (nodes: Node[], format?: RunFormat) => {
+  const hasText = nodes.some(node => (node.textContent || '').trim() || (node as Element).tagName === 'BR');
+  return hasText ? textRuns(nodes, format) : [];
+};
+
+// State of one document build, passed down to the block builders
+interface DocxContext {
+  // Each ordered list gets its own numbering instance so it restarts at 1
+  listInstances: number;
+}
+
+const listBlocks = (ctx: DocxContext, list: Element, level: number): Block[] => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const instance = ++ctx.listInstances;
+
+  return Array.from(list.children).flatMap(item => {
+    const inlineNodes = Array.from(item.childNodes).filter(node => !isBlockElement(node));
+    const paragraph = new Paragraph({
+      children: textRuns(inlineNodes),
+      ...(ordered
+        ? { numbering: { reference: ORDERED_LIST, level: Math.min(level, 8), instance } }
+        : { bullet: { level: Math.min(level, 8) } }),
+    });
+    const nested = Array.from(item.children)
+      .filter(child => isBlockElement(child))
+      .flatMap(child => {
+        const tag = child.tagName.toLowerCase();
+        return tag === 'ul' || tag === 'ol' ? listBlocks(ctx, child, level + 1) : blockElements(ctx, child);
+      });
+    return [paragraph, ...nested];
+  });
+};
+
+const tableBlock = (ctx: DocxContext, table: HTMLTableElement): Table | null => {
+  const rows = Array.from(table.rows).filter(row => row.cells.length > 0);
+  if (rows.length === 0) return null;
+
+  // docx inserts the merged continuation cells for rowSpan itself
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map(row => new TableRow({
+      tableHeader: row.parentElement?.tagName.toLowerCase() === 'thead',
+      children: Array.from(row.cells).map(cell => {
+        const isHeader = cell.tagName.toLowerCase() === 'th';
+        const content = blocksOf(ctx, cell, isHeader ? { bold: true } : {});
+        return new TableCell({
+          columnSpan: cell.colSpan > 1 ? cell.colSpan : undefined,
+          rowSpan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+          shading: isHeader ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' } : undefined,
+          // Word refuses cells that don't end with a paragraph
+          children: content[content.length - 1] instanceof Paragraph ? content : [...content, new Paragraph({})],
+        });
+      }),
+    })),
+  });
+};
+
+const blockElements = (ctx: DocxContext, element: Element, format: RunFormat = {}): Block[] => {
+  const tag = element.tagName.toLowerCase();
+  const headingLevel = /^h([1-6])$/.exec(tag);
+  const alignment = ALIGNMENTS[alignOf(element)];
+
+  if (headingLevel) {
+    return [new Paragraph({ heading: HEADINGS[Number(headingLevel[1]) - 1], alignment, children: textRuns(Array.from(element.childNodes)) })];
+  }
+  switch (tag) {
+    case 'table': {
+      const table = tableBlock(ctx, element as HTMLTableElement);
+      const caption = (element as HTMLTableElement).caption;
+      return [
+        ...(caption ? [new Paragraph({ alignment: AlignmentType.CENTER, children: textRuns(Array.from(caption.childNodes), { bold: true }) })] : []),
+        ...(table ? [table] : []),
+      ];
+    }
+    case 'ul':
+    case 'ol': return listBlocks(ctx, element, 0);
+    case 'hr': return [new Paragraph({ border: { bottom: { style: 'single', size: 6, color: 'D1D5DB', space: 1 } } })];
+  }
+  if (element.classList.contains('image-placeholder')) {
+    return [new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: textRuns(Array.from(element.childNodes), { italics: true, color: '6B7280' }),
+    })];
+  }
+  return blocksOf(ctx, element, format, alignment);
+};
+
+// Renders children, grouping runs of inline nodes into paragraphs
+const blocksOf = (ctx: DocxContext, parent: Element, format: RunFormat = {}, alignment?: ParagraphAlignment): Block[] => {
+  const blocks: Block[] = [];
+  let inlineRun: Node[] = [];
+  const flush = () => {
+    const runs = trimmedRuns(inlineRun, format);
+    if (runs.length > 0) blocks.push(new Paragraph({ alignment, children: runs }));
+    inlineRun = [];
+  };
+
+  parent.childNodes.forEach(child => {
+    if (isBlockElement(child)) {
+      flush();
+      blocks.push(...blockElements(ctx, child, format));
+    } else {
+      inlineRun.push(child);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+export const htmlToDocxBlocks = (html: string, ctx: DocxContext = { listInstances: 0 }): Block[] => {
+  return blocksOf(ctx, parseTranslatedHtml(html));
+};
+
+const pageLabel = (page: TranslatedPage, pageBreakBefore: boolean) => new Paragraph({
+  pageBreakBefore,
+  spacing: { after: 120 },
+  children: [new TextRun({ text: `Page ${page.pageNumber}`, size: 16, color: '9CA3AF' })],
+});
+
+export const buildDocx = async (pages: TranslatedPage[], title: string, targetLang: string): Promise<Blob> => {
+  const officeFont = getExportFont(targetLang).officeFont;
+  const ctx: DocxContext = { listInstances: 0 };
+
+  const children = pages.flatMap((page, i) => [
+    pageLabel(page, i > 0),
+    ...(page.status === 'completed'
+      ? htmlToDocxBlocks(page.translatedHtml, ctx)
+      : [new Paragraph({ children: [new TextRun({ text: untranslatedNotice(page), bold: true, color: 'B91C1C' })] })]),
+  ]);
+
+  const doc = new Document({
+    title,
+    creator: 'PDF Translate Pro',
+    styles: {
+      default: {
+        document: { run: { font: { ascii: officeFont, hAnsi: officeFont, eastAsia: officeFont }, size: 22 } },
+      },
+    },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{
+      properties: {},
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(title)] }),
+        ...children,
+      ],
+    }],
+  });
+
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,136 @@
+import JSZip from "jszip";
+import { TranslatedPage } from "../types";
+import { escapeHtml } from "./htmlSanitizer";
+import { toLanguageTag } from "./languages";
+import { documentCss } from "./htmlExport";
+import { parseTranslatedHtml, untranslatedNotice } from "./exportUtils";
+
+// EPUB 3 export: one XHTML chapter per PDF page, or per h1/h2 section.
+
+export type EpubChapterMode = 'page' | 'section';
+
+interface Chapter {
+  title: string;
+  body: string; // Serialized XHTML fragment
+}
+
+const serializeNodes = (nodes: Node[]) => {
+  const xml = new XMLSerializer();
+  return nodes.map(node => xml.serializeToString(node)).join('');
+};
+
+const pageNodes = (page: TranslatedPage): Node[] => {
+  if (page.status === 'completed') {
+    return Array.from(parseTranslatedHtml(page.translatedHtml).childNodes);
+  }
+  const notice = document.createElement('p');
+  notice.className = 'untranslated';
+  notice.textContent = untranslatedNotice(page);
+  return [notice];
+};
+
+const pageChapters = (pages: TranslatedPage[]): Chapter[] => {
+  return pages.map(page => ({ title: `Page ${page.pageNumber}`, body: serializeNodes(pageNodes(page)) }));
+};
+
+// Starts a new chapter at every top-level h1/h2, regardless of page boundaries
+const sectionChapters = (pages: TranslatedPage[]): Chapter[] => {
+  const chapters: { title: string; nodes: Node[] }[] = [];
+
+  pages.forEach(page => {
+    pageNodes(page).forEach(node => {
+      const tag = node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+      if (tag === 'h1' || tag === 'h2') {
+        chapters.push({ title: (node.textContent || '').trim() || `Page ${page.pageNumber}`, nodes: [node] });
+      } else if (chapters.length === 0) {
+        chapters.push({ title: `Page ${page.pageNumber}`, nodes: [node] });
+      } else {
+        chapters[chapters.length - 1].nodes.push(node);
+      }
+    });
+  });
+
+  return chapters.map(chapter => ({ title: chapter.title, body: serializeNodes(chapter.nodes) }));
+};
+
+const chapterFile = (index: number) => `chapter-${String(index + 1).padStart(4, '0')}.xhtml`;
+
+const chapterXhtml = (chapter: Chapter, lang: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+  <title>${escapeHtml(chapter.title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+  <section class="pdf-translated-content" epub:type="chapter">
+${chapter.body}
+  </section>
+</body>
+</html>
+`;
+
+const navXhtml = (chapters: Chapter[], title: string, lang: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+  <title>${escapeHtml(title)}</title>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>${escapeHtml(title)}</h1>
+    <ol>
+${chapters.map((chapter, i) => `      <li><a href="${chapterFile(i)}">${escapeHtml(chapter.title)}</a></li>`).join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+
+const contentOpf = (chapters: Chapter[], title: string, lang: string, id: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${id}</dc:identifier>
+    <dc:title>${escapeHtml(title)}</dc:title>
+    <dc:language>${lang}</dc:language>
+    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="css" href="styles.css" media-type="text/css" />
+${chapters.map((_, i) => `    <item id="c${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml" />`).join('\n')}
+  </manifest>
+  <spine>
+${chapters.map((_, i) => `    <itemref idref="c${i + 1}" />`).join('\n')}
+  </spine>
+</package>
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+export const buildEpub = async (
+  pages: TranslatedPage[],
+  title: string,
+  targetLang: string,
+  chapterMode: EpubChapterMode
+): Promise<Blob> => {
+  const lang = toLanguageTag(targetLang);
+  const chapters = chapterMode === 'section' ? sectionChapters(pages) : pageChapters(pages);
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER_XML);
+  zip.file('OEBPS/content.opf', contentOpf(chapters, title, lang, crypto.randomUUID()));
+  zip.file('OEBPS/nav.xhtml', navXhtml(chapters, title, lang));
+  zip.file('OEBPS/styles.css', documentCss(targetLang));
+  chapters.forEach((chapter, i) => zip.file(`OEBPS/${chapterFile(i)}`, chapterXhtml(chapter, lang)));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
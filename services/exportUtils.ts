@@ -0,0 +1,77 @@
+import { TranslatedPage } from "../types";
+import { sanitizeHtml } from "./htmlSanitizer";
+
+// Helpers shared by the PDF, DOCX, Markdown, HTML and EPUB exporters.
+
+export type Align = 'left' | 'center' | 'right';
+
+// Block-level tags: everything else is treated as inline content
+export const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'caption',
+  'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'blockquote', 'pre', 'hr', 'figure', 'figcaption'
+]);
+
+export const isBlockElement = (node: Node): node is Element => {
+  return node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+};
+
+// Parses sanitized page HTML into a detached <body> element to walk
+export const parseTranslatedHtml = (html: string): HTMLElement => {
+  return new DOMParser().parseFromString(sanitizeHtml(html), 'text/html').body;
+};
+
+export const alignOf = (element: Element): Align => {
+  const match = /text-align\s*:\s*(left|center|right)/i.exec(element.getAttribute('style') || '');
+  const align = (match?.[1] || element.getAttribute('align') || 'left').toLowerCase();
+  return align === 'center' || align === 'right' ? align : 'left';
+};
+
+export const untranslatedNotice = (page: TranslatedPage) => {
+  const reason = page.status === 'error' && page.errorMessage ? `: ${page.errorMessage}` : '';
+  return `Page ${page.pageNumber} was not translated (${page.status})${reason}`;
+};
+
+export const pagesForExport = (pages: TranslatedPage[], skipFailed: boolean) => {
+  return skipFailed ? pages.filter(page => page.status === 'completed') : pages;
+};
+
+// "report.pdf" -> "report_translated.docx"
+export const exportFileName = (documentName: string | undefined, extension: string) => {
+  const base = (documentName || 'document').replace(/\.pdf$/i, '');
+  return `${base}_translated.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Expands colspan/rowspan into a rectangular grid of cells (spanned slots hold null)
+export const tableGrid = (table: HTMLTableElement): (HTMLTableCellElement | null)[][] => {
+  const grid: (HTMLTableCellElement | null)[][] = [];
+  Array.from(table.rows).forEach((row, r) => {
+    grid[r] = grid[r] || [];
+    let c = 0;
+    Array.from(row.cells).forEach(cell => {
+      while (grid[r][c] !== undefined) c++;
+      const colSpan = Math.max(1, cell.colSpan);
+      const rowSpan = Math.max(1, cell.rowSpan);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        grid[r + dr] = grid[r + dr] || [];
+        for (let dc = 0; dc < colSpan; dc++) {
+          grid[r + dr][c + dc] = dr === 0 && dc === 0 ? cell : null;
+        }
+      }
+      c += colSpan;
+    });
+  });
+  const width = Math.max(0, ...grid.map(row => row.length));
+  return grid.map(row => Array.from({ length: width }, (_, i) => row[i] ?? null));
+};
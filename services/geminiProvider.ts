@@ -0,0 +1,149 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ApiConfig, ProviderPageInput, ProviderResult, TranslateOptions, TranslationProvider } from "../types";
+import { buildVisionPrompt, CONTINUATION_PROMPT } from "./translationPrompt";
+import { overNetwork, ProviderHttpError, ProviderRefusalError, recordTokens, splitDataUrl, withRetries } from "./providerRequest";
+import { generateWithContinuation, GenerateTurn } from "./continuation";
+import { estimateRequestTokens, NO_RATE_LIMITS, rateLimiterFor } from "./rateLimiter";
+
+// Native Gemini API with inline image input, through the official SDK.
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash'; // Flash for speed/cost efficiency on vision tasks
+
+interface GeminiAnswer {
+  text: string;
+  blockReason?: string;
+  finishReason?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+const answerOf = ({ text, promptFeedback, candidates, usageMetadata }: GenerateContentResponse): GeminiAnswer => ({
+  text: text || '',
+  blockReason: promptFeedback?.blockReason,
+  finishReason: candidates?.[0]?.finishReason,
+  inputTokens: usageMetadata?.promptTokenCount,
+  // Thinking tokens are billed as output
+  outputTokens: usageMetadata && (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0)
+});
+
+// The SDK doesn't expose response headers; a 429's body says how long to wait ("retryDelay": "31s")
+const geminiRetryDelay = (message: string): number | undefined => {
+  const match = /retryDelay["']?\s*:\s*["']?(\d+(?:\.\d+)?)s/.exec(message);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Calls the SDK, mapping its errors onto the shared types so client errors aren't retried, rate
+// limits are waited out and an unreachable endpoint can fall back
+const callGemini = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await overNetwork(call, 'Gemini');
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw new ProviderHttpError(`Gemini API Error ${error.status}: ${error.message}`, error.status, geminiRetryDelay(error.message));
+    }
+    throw error;
+  }
+};
+
+// Gemini returns an empty text (rather than an HTTP error) when a prompt or answer is blocked
+const emptyAnswerError = ({ blockReason, finishReason }: GeminiAnswer): Error => {
+  if (blockReason) {
+    return new ProviderRefusalError(`Gemini blocked this page (${blockReason}).`);
+  }
+  if (finishReason && finishReason !== 'STOP') {
+    return new ProviderRefusalError(`Gemini returned no content (finish reason: ${finishReason}).`);
+  }
+  return new ProviderRefusalError("Empty response from Gemini.");
+};
+
+const translateWithGemini = async (page: ProviderPageInput, config: ApiConfig, { signal, onPartial, meter }: TranslateOptions = {}): Promise<ProviderResult> => {
+  if (!config.apiKey) {
+    throw new Error("Gemini API Key is missing. Please configure it in settings.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const model = config.modelName || DEFAULT_GEMINI_MODEL;
+  const prompt = buildVisionPrompt(config, page);
+  const { mimeType, data } = splitDataUrl(page.image);
+  const limiter = rateLimiterFor(config, 'Gemini');
+  const content = {
+    role: 'user',
+    parts: [
+      { inlineData: { mimeType, data } },
+      { text: prompt }
+    ]
+  };
+
+  // A continuation replays the answer so far as the model's turn and asks for the rest
+  const generate: GenerateTurn = async (previous, onTurnPartial) => {
+    const request = {
+      model,
+      contents: previous
+        ? [content, { role: 'model', parts: [{ text: previous }] }, { role: 'user', parts: [{ text: CONTINUATION_PROMPT }] }]
+        : [content],
+      config: {
+        temperature: 0.3,
+        abortSignal: signal
+      }
+    };
+
+    const answer = await withRetries(async () => {
+      if (!onTurnPartial) {
+        const single = answerOf(await callGemini(() => ai.models.generateContent(request)));
+        recordTokens(meter, single.inputTokens, single.outputTokens);
+        return single;
+      }
+
+      // Streamed chunks each carry the next piece of text; the last one has the finish reason
+      const streamed: GeminiAnswer = { text: '' };
+      const chunks = (await callGemini(() => ai.models.generateContentStream(request)))[Symbol.asyncIterator]();
+      // The counts seen so far are kept when the stream breaks off, so the failed attempt still shows in the usage
+      try {
+        for (;;) {
+          const { done, value: chunk } = await callGemini(() => chunks.next());
+          if (done) break;
+          const part = answerOf(chunk);
+          streamed.text += part.text;
+          streamed.blockReason = part.blockReason || streamed.blockReason;
+          streamed.finishReason = part.finishReason || streamed.finishReason;
+          // Each chunk repeats the running totals; the last one is final
+          streamed.inputTokens = part.inputTokens ?? streamed.inputTokens;
+          streamed.outputTokens = part.outputTokens ?? streamed.outputTokens;
+          if (part.text) onTurnPartial(streamed.text);
+        }
+      } finally {
+        recordTokens(meter, streamed.inputTokens, streamed.outputTokens);
+      }
+      return streamed;
+    }, { label: 'Gemini', signal, meter, limiter, tokens: estimateRequestTokens(prompt + previous, 1) });
+
+    // Blocked or empty answers are not retried: the same page would be blocked again
+    if (!answer.text && !previous) throw emptyAnswerError(answer);
+    return { text: answer.text, truncated: answer.finishReason === 'MAX_TOKENS' };
+  };
+
+  return generateWithContinuation(generate, onPartial);
+};
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  tagline: 'Gemini Vision (High Accuracy)',
+  accent: 'blue',
+  input: 'image',
+  capabilities: { preservesLayout: true, usesModel: true, streaming: true },
+  defaults: { baseUrl: '', apiKey: '', modelName: DEFAULT_GEMINI_MODEL, render: { maxDimension: 1536, imageQuality: 0.7, tiling: 'auto' }, rateLimits: NO_RATE_LIMITS },
+  fields: [
+    {
+      key: 'apiKey',
+      label: 'Gemini API Key',
+      type: 'password',
+      icon: 'key',
+      placeholder: 'AIza...',
+      help: 'Create one in Google AI Studio. Pages are sent to Gemini as inline images.',
+      required: true
+    },
+    { key: 'modelName', label: 'Model Name', type: 'text', icon: 'model', placeholder: DEFAULT_GEMINI_MODEL, required: true }
+  ],
+  translate: translateWithGemini
+};
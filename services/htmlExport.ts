@@ -0,0 +1,57 @@
+import { TranslatedPage } from "../types";
+import { TRANSLATED_CONTENT_CSS } from "../components/translatedContentStyles";
+import { escapeHtml, sanitizeHtml } from "./htmlSanitizer";
+import { getExportFont, toLanguageTag } from "./languages";
+import { untranslatedNotice } from "./exportUtils";
+
+// Standalone HTML export: one file, no external resources, styled like the viewer.
+
+export const documentCss = (targetLang: string) => `
+  body {
+    font-family: ${getExportFont(targetLang).cssFamily};
+    line-height: 1.7;
+    color: #1f2937;
+    max-width: 820px;
+    margin: 0 auto;
+    padding: 32px 24px;
+  }
+  h1, h2, h3, h4 { color: #111827; line-height: 1.3; }
+  .page-label { font-size: 0.75em; color: #9ca3af; text-transform: uppercase; letter-spacing: 0.05em; margin: 0 0 8px; }
+  .page { border-bottom: 1px solid #e5e7eb; padding-bottom: 24px; margin-bottom: 32px; }
+  .untranslated { color: #b91c1c; font-style: italic; }
+  nav ol { columns: 4; font-size: 0.85em; }
+${TRANSLATED_CONTENT_CSS}`;
+
+export const buildStandaloneHtml = (pages: TranslatedPage[], title: string, targetLang: string): string => {
+  const toc = pages
+    .map(page => `<li><a href="#page-${page.pageNumber}">Page ${page.pageNumber}</a></li>`)
+    .join('');
+
+  const sections = pages.map(page => {
+    const body = page.status === 'completed'
+      ? sanitizeHtml(page.translatedHtml)
+      : `<p class="untranslated">${escapeHtml(untranslatedNotice(page))}</p>`;
+    return `
+    <section class="page" id="page-${page.pageNumber}">
+      <p class="page-label">Page ${page.pageNumber}</p>
+      <div class="pdf-translated-content">${body}</div>
+    </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${toLanguageTag(targetLang)}">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <meta name="generator" content="PDF Translate Pro" />
+  <title>${escapeHtml(title)}</title>
+  <style>${documentCss(targetLang)}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <nav><ol>${toc}</ol></nav>
+${sections}
+</body>
+</html>
+`;
+};
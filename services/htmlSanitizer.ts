@@ -0,0 +1,119 @@
+// Allow-list sanitizer for model-generated HTML.
+// Translations come straight from an LLM or a third-party DeepLX instance, so everything that
+// isn't plain document markup is dropped before it reaches the viewer or the exporters.
+
+// Structural and inline formatting tags that are kept as-is (minus disallowed attributes)
+const ALLOWED_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'div', 'span', 'blockquote', 'pre', 'code',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'b', 'strong', 'i', 'em', 'u', 's', 'sup', 'sub', 'small', 'mark', 'figure', 'figcaption'
+]);
+
+// Removed together with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'link', 'meta', 'base', 'title', 'head', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'img', 'picture', 'source', 'video', 'audio', 'track', 'canvas', 'svg', 'math', 'template',
+  'noscript', 'form', 'input', 'button', 'textarea', 'select', 'option'
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'class', 'style', 'colspan', 'rowspan', 'align', 'valign', 'scope', 'headers', 'title', 'lang', 'dir', 'start', 'type',
+  'data-segment' // Links a translated sentence to TranslatedPage.segments
+]);
+
+// Only our own presentational classes; arbitrary utility classes could restyle the surrounding app
+const ALLOWED_CLASSES = new Set(['image-placeholder', 'deeplx-translation', 'segment']);
+
+const ALLOWED_STYLE_PROPERTIES = new Set([
+  'text-align', 'vertical-align', 'font-weight', 'font-style', 'font-size', 'text-decoration', 'text-indent',
+  'line-height', 'color', 'background-color', 'width', 'min-width', 'max-width',
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border', 'border-top', 'border-right', 'border-bottom', 'border-left', 'border-collapse', 'border-color',
+  'list-style-type', 'white-space'
+]);
+
+// Anything that can load a resource or run code from inside a CSS value
+const UNSAFE_STYLE_VALUE = /url\s*\(|expression\s*\(|javascript:|@import|\\|<|>/i;
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const sanitizeStyle = (style: string): string => {
+  return style
+    .split(';')
+    .map(declaration => {
+      const separator = declaration.indexOf(':');
+      if (separator < 0) return '';
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (!ALLOWED_STYLE_PROPERTIES.has(property) || !value || UNSAFE_STYLE_VALUE.test(value)) return '';
+      return `${property}: ${value}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+};
+
+const sanitizeAttributes = (source: Element, target: Element) => {
+  Array.from(source.attributes).forEach(attr => {
+    const name = attr.name.toLowerCase();
+    // Event handlers (on*) and URL-bearing attributes (href, src, ...) never make it through
+    if (!ALLOWED_ATTRIBUTES.has(name)) return;
+
+    let value = attr.value;
+    if (name === 'style') {
+      value = sanitizeStyle(value);
+    } else if (name === 'class') {
+      value = value.split(/\s+/).filter(c => ALLOWED_CLASSES.has(c)).join(' ');
+    } else if (name === 'colspan' || name === 'rowspan' || name === 'start') {
+      value = /^\d{1,3}$/.test(value) ? value : '';
+    } else if (name === 'data-segment') {
+      value = /^\d{1,5}$/.test(value) ? value : '';
+    }
+    if (value) target.setAttribute(name, value);
+  });
+};
+
+const sanitizeChildren = (source: Node, target: Node, doc: Document) => {
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      target.appendChild(doc.createTextNode(child.textContent || ''));
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return; // Comments, processing instructions, ...
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return;
+
+    if (ALLOWED_TAGS.has(tag)) {
+      const clean = doc.createElement(tag);
+      sanitizeAttributes(element, clean);
+      sanitizeChildren(element, clean, doc);
+      target.appendChild(clean);
+    } else {
+      // Unknown but harmless wrappers (e.g. <a>, <font>, <section>) are unwrapped, keeping their text
+      sanitizeChildren(element, target, doc);
+    }
+  });
+};
+
+/**
+ * Returns a copy of `html` that only contains allow-listed tags, attributes and CSS properties.
+ * Parsing through DOMParser also closes any unbalanced tags.
+ */
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  const output = document.implementation.createHTMLDocument('');
+  const container = output.createElement('div');
+  sanitizeChildren(parsed.body, container, output);
+  return container.innerHTML;
+};
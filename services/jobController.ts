@@ -0,0 +1,91 @@
+// Pause / resume / cancel control for a running translation job.
+
+export type JobState = 'running' | 'paused' | 'cancelled';
+
+export interface JobController {
+  // Aborted on cancel; pass it to fetch so in-flight requests stop spending credits
+  signal: AbortSignal;
+  getState: () => JobState;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves immediately while running, waits while paused and throws a JobCancelledError once cancelled
+  waitIfPaused: () => Promise<void>;
+  subscribe: (listener: (state: JobState) => void) => () => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Translation job was cancelled');
+    this.name = 'AbortError';
+  }
+}
+
+// fetch() rejects with a DOMException named 'AbortError' when its signal fires
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+// Waits between retries, but stops early (rejecting with an AbortError) if the job is cancelled
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new JobCancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new JobCancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createJobController = (): JobController => {
+  const abortController = new AbortController();
+  const listeners = new Set<(state: JobState) => void>();
+  let waiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+  let state: JobState = 'running';
+
+  const setState = (next: JobState) => {
+    if (state === 'cancelled' || state === next) return;
+    state = next;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const releaseWaiters = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(waiter => {
+      if (state === 'cancelled') waiter.reject(new JobCancelledError());
+      else waiter.resolve();
+    });
+  };
+
+  return {
+    signal: abortController.signal,
+    getState: () => state,
+    pause: () => setState('paused'),
+    resume: () => {
+      setState('running');
+      releaseWaiters();
+    },
+    cancel: () => {
+      setState('cancelled');
+      abortController.abort();
+      releaseWaiters();
+    },
+    waitIfPaused: () => {
+      if (state === 'cancelled') return Promise.reject(new JobCancelledError());
+      if (state === 'running') return Promise.resolve();
+      return new Promise<void>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+      });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
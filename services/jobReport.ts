@@ -0,0 +1,69 @@
+import { TranslatedPage, TranslationStats } from "../types";
+import { getProvider } from "./providers";
+import { downloadBlob } from "./exportUtils";
+
+// Usage report of a translation job, for charging costs back to projects: one row per page plus totals.
+
+const CSV_COLUMNS = [
+  'page', 'status', 'profile', 'provider', 'model', 'input_tokens', 'output_tokens', 'requests', 'retries',
+  'latency_ms', 'cost_usd', 'cached', 'incomplete'
+];
+
+const csvCell = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Costs keep six decimals: a single page often costs a fraction of a cent
+const formatUsd = (cost: number | null | undefined) => (cost === null || cost === undefined ? '' : cost.toFixed(6));
+
+export const buildReportCsv = (pages: TranslatedPage[], stats: TranslationStats): string => {
+  const rows = pages.map(page => {
+    const usage = page.usage;
+    return [
+      page.pageNumber,
+      page.status,
+      page.profile,
+      usage ? getProvider(usage.provider).name : '',
+      usage?.model,
+      usage?.inputTokens,
+      usage?.outputTokens,
+      usage?.requests,
+      usage?.retries,
+      usage && Math.round(usage.latency),
+      page.fromCache && !usage ? formatUsd(0) : formatUsd(usage?.cost),
+      Boolean(page.fromCache),
+      Boolean(page.incomplete)
+    ];
+  });
+  const total = [
+    'total', `${stats.completedPages}/${stats.totalPages} completed`, '', '', '', stats.inputTokens, stats.outputTokens,
+    stats.requests, stats.retries, '', formatUsd(stats.cost), stats.cachedPages, stats.incompletePages
+  ];
+
+  return [CSV_COLUMNS, ...rows, total].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const buildReportJson = (pages: TranslatedPage[], stats: TranslationStats, documentName?: string): string => {
+  return JSON.stringify({
+    document: documentName || null,
+    generatedAt: new Date().toISOString(),
+    stats,
+    pages: pages.map(({ pageNumber, status, profile, fromCache, incomplete, usage, errorMessage }) => ({
+      pageNumber, status, profile: profile || null, fromCache: Boolean(fromCache), incomplete: Boolean(incomplete), usage: usage || null, errorMessage
+    }))
+  }, null, 2);
+};
+
+// "report.pdf" -> "report_usage.csv"
+const reportFileName = (documentName: string | undefined, extension: string) => {
+  return `${(documentName || 'document').replace(/\.pdf$/i, '')}_usage.${extension}`;
+};
+
+export const downloadReport = (format: 'csv' | 'json', pages: TranslatedPage[], stats: TranslationStats, documentName?: string) => {
+  if (format === 'csv') {
+    downloadBlob(new Blob([buildReportCsv(pages, stats)], { type: 'text/csv;charset=utf-8' }), reportFileName(documentName, 'csv'));
+  } else {
+    downloadBlob(new Blob([buildReportJson(pages, stats, documentName)], { type: 'application/json' }), reportFileName(documentName, 'json'));
+  }
+};
@@ -0,0 +1,111 @@
+// Language catalogue shared by the providers, the settings form and the exporters.
+// Codes follow DeepL's naming so they can be sent to DeepLX unchanged.
+
+export type LanguageScript = 'latin' | 'cyrillic' | 'greek' | 'sc' | 'tc' | 'ja' | 'ko';
+
+export interface LanguageOption {
+  code: string;
+  name: string;       // English name, used in prompts and labels
+  imageLabel: string; // Label for decorative image placeholders in the target language
+  script: LanguageScript;
+}
+
+export const AUTO_DETECT = 'auto';
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'ZH', name: 'Simplified Chinese', imageLabel: '图片', script: 'sc' },
+  { code: 'ZH-HANT', name: 'Traditional Chinese', imageLabel: '圖片', script: 'tc' },
+  { code: 'JA', name: 'Japanese', imageLabel: '画像', script: 'ja' },
+  { code: 'KO', name: 'Korean', imageLabel: '이미지', script: 'ko' },
+  { code: 'EN', name: 'English', imageLabel: 'Image', script: 'latin' },
+  { code: 'DE', name: 'German', imageLabel: 'Bild', script: 'latin' },
+  { code: 'FR', name: 'French', imageLabel: 'Image', script: 'latin' },
+  { code: 'ES', name: 'Spanish', imageLabel: 'Imagen', script: 'latin' },
+  { code: 'IT', name: 'Italian', imageLabel: 'Immagine', script: 'latin' },
+  { code: 'PT', name: 'Portuguese', imageLabel: 'Imagem', script: 'latin' },
+  { code: 'NL', name: 'Dutch', imageLabel: 'Afbeelding', script: 'latin' },
+  { code: 'PL', name: 'Polish', imageLabel: 'Obraz', script: 'latin' },
+  { code: 'RU', name: 'Russian', imageLabel: 'Изображение', script: 'cyrillic' },
+  { code: 'UK', name: 'Ukrainian', imageLabel: 'Зображення', script: 'cyrillic' },
+  { code: 'EL', name: 'Greek', imageLabel: 'Εικόνα', script: 'greek' },
+];
+
+export const DEFAULT_SOURCE_LANG = AUTO_DETECT;
+export const DEFAULT_TARGET_LANG = 'ZH';
+
+export const getLanguage = (code: string): LanguageOption => {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+};
+
+export const getSourceLanguageName = (code: string): string => {
+  return code === AUTO_DETECT ? 'its original language' : getLanguage(code).name;
+};
+
+// BCP 47 tag for lang attributes and EPUB metadata
+export const toLanguageTag = (code: string): string => {
+  if (code === 'ZH') return 'zh-Hans';
+  if (code === 'ZH-HANT') return 'zh-Hant';
+  return code.toLowerCase();
+};
+
+// DeepL only accepts regional variants on the target side (e.g. ZH-HANT), so strip them for the source.
+export const toDeepLSourceCode = (code: string): string => {
+  return code === AUTO_DETECT ? 'auto' : code.split('-')[0];
+};
+
+export interface ExportFont {
+  fileName: string;   // Asset under public/fonts (see scripts/fetch-fonts.mjs), also the jsPDF VFS name
+  fontName: string;   // Family name passed to doc.setFont
+  cssFamily: string;  // Font stack for HTML-based exports
+  officeFont: string; // Font name written into DOCX files
+}
+
+// One embeddable TrueType font per script. The Noto Sans build covers Latin, Cyrillic and Greek.
+export const EXPORT_FONTS: Record<LanguageScript, ExportFont> = {
+  sc: {
+    fileName: 'NotoSansSC.ttf',
+    fontName: 'NotoSansSC',
+    cssFamily: '"Inter", "Noto Sans SC", "SimSun", "Arial", sans-serif',
+    officeFont: 'Microsoft YaHei',
+  },
+  tc: {
+    fileName: 'NotoSansTC.ttf',
+    fontName: 'NotoSansTC',
+    cssFamily: '"Inter", "Noto Sans TC", "PMingLiU", "Arial", sans-serif',
+    officeFont: 'Microsoft JhengHei',
+  },
+  ja: {
+    fileName: 'NotoSansJP.ttf',
+    fontName: 'NotoSansJP',
+    cssFamily: '"Inter", "Noto Sans JP", "Hiragino Sans", "Meiryo", sans-serif',
+    officeFont: 'Yu Gothic',
+  },
+  ko: {
+    fileName: 'NotoSansKR.ttf',
+    fontName: 'NotoSansKR',
+    cssFamily: '"Inter", "Noto Sans KR", "Malgun Gothic", sans-serif',
+    officeFont: 'Malgun Gothic',
+  },
+  latin: {
+    fileName: 'NotoSans-Regular.ttf',
+    fontName: 'NotoSans',
+    cssFamily: '"Inter", "Noto Sans", "Arial", sans-serif',
+    officeFont: 'Calibri',
+  },
+  cyrillic: {
+    fileName: 'NotoSans-Regular.ttf',
+    fontName: 'NotoSans',
+    cssFamily: '"Inter", "Noto Sans", "Arial", sans-serif',
+    officeFont: 'Calibri',
+  },
+  greek: {
+    fileName: 'NotoSans-Regular.ttf',
+    fontName: 'NotoSans',
+    cssFamily: '"Inter", "Noto Sans", "Arial", sans-serif',
+    officeFont: 'Calibri',
+  },
+};
+
+export const getExportFont = (targetLang: string): ExportFont => {
+  return EXPORT_FONTS[getLanguage(targetLang).script];
+};
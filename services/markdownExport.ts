@@ -0,0 +1,145 @@
+import { TranslatedPage } from "../types";
+import { isBlockElement, parseTranslatedHtml, tableGrid, untranslatedNotice } from "./exportUtils";
+
+// HTML -> GitHub Flavored Markdown for the translated pages.
+
+interface MarkdownContext {
+  inTable?: boolean;
+}
+
+const escapeMarkdown = (text: string) => text
+  .replace(/([\\`*_[\]])/g, '\\$1')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+// Text at the start of a line that would otherwise open a heading, list or numbered list
+// ('>' is already an entity)
+const escapeLineStart = (text: string) => text.replace(/^( *)(?:([#+-])|(\d+)([.)]))/gm,
+  (_, indent: string, marker?: string, digits?: string, delimiter?: string) =>
+    marker ? `${indent}\\${marker}` : `${indent}${digits}\\${delimiter}`
+);
+
+const inlineMarkdown = (nodes: Node[], ctx: MarkdownContext = {}): string => {
+  return nodes.map(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const inner = inlineMarkdown(Array.from(element.childNodes), ctx);
+    const wrap = (marker: string) => (inner.trim() ? `${marker}${inner.trim()}${marker}` : inner);
+
+    switch (tag) {
+      case 'br': return ctx.inTable ? '<br>' : '  \n';
+      case 'strong':
+      case 'b': return wrap('**');
+      case 'em':
+      case 'i': return wrap('*');
+      case 's': return wrap('~~');
+      case 'code': return `\`${element.textContent || ''}\``;
+      // GFM has no syntax for these, but allows the inline HTML
+      case 'sup':
+      case 'sub':
+      case 'u': return `<${tag}>${inner}</${tag}>`;
+      default:
+        // Nested blocks inside inline contexts (e.g. <p> in <td>) become line breaks
+        return isBlockElement(element) ? `${ctx.inTable ? '<br>' : '\n'}${inner}` : inner;
+    }
+  }).join('');
+};
+
+const cleanInline = (text: string) => text.replace(/^(<br>|\s)+|(<br>|\s)+$/g, '').replace(/ {2,}/g, ' ');
+
+const tableMarkdown = (table: HTMLTableElement): string => {
+  const grid = tableGrid(table);
+  if (grid.length === 0 || grid[0].length === 0) return '';
+
+  // Spanned slots are left empty: GFM tables can't merge cells
+  const rows = grid.map(row => row.map(cell =>
+    cell ? cleanInline(inlineMarkdown(Array.from(cell.childNodes), { inTable: true })).replace(/\|/g, '\\|') : ''
+  ));
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const [header, ...body] = rows;
+  const caption = table.caption ? `**${cleanInline(inlineMarkdown(Array.from(table.caption.childNodes)))}**\n\n` : '';
+  return caption + [line(header), line(header.map(() => '---')), ...body.map(line)].join('\n');
+};
+
+const listMarkdown = (list: Element, depth: number): string => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  let counter = Number(list.getAttribute('start')) || 1;
+  const indent = '   '.repeat(depth);
+
+  return Array.from(list.children).map(item => {
+    const marker = ordered ? `${counter++}.` : '-';
+    const inlineNodes = Array.from(item.childNodes).filter(node => !isBlockElement(node));
+    const nested = Array.from(item.children)
+      .filter(child => isBlockElement(child))
+      .map(child => {
+        const tag = child.tagName.toLowerCase();
+        if (tag === 'ul' || tag === 'ol') return listMarkdown(child, depth + 1);
+        return blockMarkdown(child, depth + 1).split('\n').map(line => `${indent}   ${line}`).join('\n');
+      });
+    return [`${indent}${marker} ${escapeLineStart(cleanInline(inlineMarkdown(inlineNodes)))}`, ...nested].join('\n');
+  }).join('\n');
+};
+
+const blockMarkdown = (element: Element, depth: number): string => {
+  const tag = element.tagName.toLowerCase();
+  const headingLevel = /^h([1-6])$/.exec(tag);
+
+  if (headingLevel) {
+    return `${'#'.repeat(Number(headingLevel[1]))} ${escapeLineStart(cleanInline(inlineMarkdown(Array.from(element.childNodes))))}`;
+  }
+  switch (tag) {
+    case 'table': return tableMarkdown(element as HTMLTableElement);
+    case 'ul':
+    case 'ol': return listMarkdown(element, depth);
+    case 'hr': return '---';
+    case 'pre': return `\`\`\`\n${element.textContent || ''}\n\`\`\``;
+    case 'blockquote':
+      return blocksMarkdown(element, depth).split('\n').map(line => `> ${line}`).join('\n');
+  }
+  if (element.classList.contains('image-placeholder')) {
+    return `> *${cleanInline(inlineMarkdown(Array.from(element.childNodes)))}*`;
+  }
+  return blocksMarkdown(element, depth);
+};
+
+// Renders children, grouping runs of inline nodes into paragraphs
+const blocksMarkdown = (parent: Element, depth = 0): string => {
+  const blocks: string[] = [];
+  let inlineRun: Node[] = [];
+  const flush = () => {
+    const text = escapeLineStart(cleanInline(inlineMarkdown(inlineRun)));
+    if (text) blocks.push(text);
+    inlineRun = [];
+  };
+
+  parent.childNodes.forEach(child => {
+    if (isBlockElement(child)) {
+      flush();
+      const block = blockMarkdown(child, depth);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inlineRun.push(child);
+    }
+  });
+  flush();
+  return blocks.join('\n\n');
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  return blocksMarkdown(parseTranslatedHtml(html));
+};
+
+export const buildMarkdown = (pages: TranslatedPage[], title: string): string => {
+  const sections = pages.map(page => {
+    const body = page.status === 'completed' ? htmlToMarkdown(page.translatedHtml) : `> **${untranslatedNotice(page)}**`;
+    // HTML comments keep the original page numbers without adding visible headings
+    return `<!-- Page ${page.pageNumber} -->\n\n${body}`;
+  });
+  return `# ${title}\n\n${sections.join('\n\n---\n\n')}\n`;
+};
@@ -0,0 +1,88 @@
+import { ApiConfig, ProviderPageInput, ProviderResult, TranslateOptions, TranslationProvider } from "../types";
+import { buildVisionPrompt, CONTINUATION_PROMPT } from "./translationPrompt";
+import { joinEndpoint, postJson, postStream, ProviderAnswerError, ProviderRefusalError, recordTokens, RequestOptions, splitDataUrl, withRetries } from "./providerRequest";
+import { generateWithContinuation, GenerateTurn } from "./continuation";
+import { estimateRequestTokens, NO_RATE_LIMITS, rateLimiterFor } from "./rateLimiter";
+
+// Ollama's /api/chat with a local vision model, so pages never leave the machine.
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.2-vision';
+
+const translateWithOllama = async (page: ProviderPageInput, config: ApiConfig, { signal, onPartial, meter }: TranslateOptions = {}): Promise<ProviderResult> => {
+  const endpoint = joinEndpoint(config.baseUrl || DEFAULT_OLLAMA_URL, '/api/chat');
+  const { data } = splitDataUrl(page.image);
+  const prompt = buildVisionPrompt(config, page);
+  const request = { role: 'user', content: prompt, images: [data] };
+  const limiter = rateLimiterFor(config, 'Ollama');
+
+  // A continuation replays the answer so far as the assistant's turn and asks for the rest
+  const generate: GenerateTurn = (previous, onTurnPartial) => withRetries(async () => {
+    const body = {
+      model: config.modelName || DEFAULT_OLLAMA_MODEL,
+      // Streamed answers arrive as newline-delimited chunks, otherwise as one JSON answer
+      stream: Boolean(onTurnPartial),
+      messages: previous
+        ? [request, { role: 'assistant', content: previous }, { role: 'user', content: CONTINUATION_PROMPT }]
+        : [request],
+      options: { temperature: 0.3 }
+    };
+    const options: RequestOptions = {
+      // Only needed behind an authenticating reverse proxy
+      headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+      label: 'Ollama',
+      signal,
+      limiter
+    };
+
+    let text = '';
+    let doneReason: string | undefined;
+    if (onTurnPartial) {
+      await postStream(endpoint, body, { ...options, format: 'ndjson' }, chunk => {
+        if (chunk.error) throw new ProviderAnswerError(`Ollama Error: ${chunk.error}`);
+        text += chunk.message?.content || '';
+        doneReason = chunk.done_reason || doneReason;
+        // The last chunk carries the counts
+        if (chunk.done) recordTokens(meter, chunk.prompt_eval_count, chunk.eval_count);
+        onTurnPartial(text);
+      });
+    } else {
+      const response = await postJson(endpoint, body, options);
+      recordTokens(meter, response.prompt_eval_count, response.eval_count);
+      text = response.message?.content || '';
+      doneReason = response.done_reason;
+    }
+
+    if (!text && !previous) {
+      throw new ProviderRefusalError("Empty response from Ollama. Make sure the model supports image input.");
+    }
+    // 'length' when the answer reached num_predict or the context window
+    return { text, truncated: doneReason === 'length' };
+  }, { label: 'Ollama', signal, meter, limiter, tokens: estimateRequestTokens(prompt + previous, 1) });
+
+  return generateWithContinuation(generate, onPartial);
+};
+
+export const ollamaProvider: TranslationProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  tagline: 'Local Vision (Private)',
+  accent: 'blue',
+  input: 'image',
+  capabilities: { preservesLayout: true, usesModel: true, streaming: true },
+  defaults: { baseUrl: DEFAULT_OLLAMA_URL, apiKey: '', modelName: DEFAULT_OLLAMA_MODEL, render: { maxDimension: 1120, imageQuality: 0.6, tiling: 'off' }, rateLimits: NO_RATE_LIMITS },
+  notice: 'Runs on your own Ollama server. Pull a vision model first (e.g. ollama pull llama3.2-vision) and allow this origin with OLLAMA_ORIGINS.',
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'Ollama URL',
+      type: 'text',
+      icon: 'server',
+      placeholder: DEFAULT_OLLAMA_URL,
+      required: true
+    },
+    { key: 'modelName', label: 'Model Name', type: 'text', icon: 'model', placeholder: DEFAULT_OLLAMA_MODEL, required: true },
+    { key: 'apiKey', label: 'Access Token (Optional)', type: 'password', icon: 'key', placeholder: 'Leave empty if not required' }
+  ],
+  translate: translateWithOllama
+};
@@ -0,0 +1,144 @@
+import { ApiConfig, PartialOutputHandler, ProviderPageInput, ProviderResult, TranslateOptions, TranslationProvider, UsageMeter } from "../types";
+import { isAbortError } from "./jobController";
+import { buildVisionPrompt, CONTINUATION_PROMPT } from "./translationPrompt";
+import { postJson, postStream, ProviderAnswerError, ProviderRefusalError, recordTokens, RequestOptions, withRetries } from "./providerRequest";
+import { estimateRequestTokens, NO_RATE_LIMITS, rateLimiterFor } from "./rateLimiter";
+import { generateWithContinuation, GenerateTurn } from "./continuation";
+
+// OpenAI-compatible chat completions with image input (OpenAI, Azure proxies, OpenRouter, ...).
+
+// Streams the completion, reporting the text so far. Returns the full text and why generation stopped.
+const streamCompletion = async (
+  endpoint: string,
+  body: object,
+  options: RequestOptions,
+  onPartial: PartialOutputHandler,
+  meter?: UsageMeter
+) => {
+  let text = '';
+  let finishReason: string | undefined;
+  // include_usage adds a last chunk with the token counts (and no choices)
+  const streamBody = { ...body, stream: true, stream_options: { include_usage: true } };
+  await postStream(endpoint, streamBody, options, chunk => {
+    if (chunk.error) throw new ProviderAnswerError(`API Error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+    if (chunk.usage) recordTokens(meter, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+    const choice = chunk.choices?.[0];
+    // Proxies that ignore `stream` answer with a whole message instead of deltas
+    const content = choice?.delta?.content ?? choice?.message?.content;
+    if (content) {
+      text += content;
+      onPartial(text);
+    }
+    finishReason = choice?.finish_reason || finishReason;
+  });
+  return { text, finishReason };
+};
+
+const translateWithOpenAI = async (page: ProviderPageInput, config: ApiConfig, { signal, onPartial, meter }: TranslateOptions = {}): Promise<ProviderResult> => {
+  // Validate Config
+  if (!config.apiKey) {
+    throw new Error("API Key is missing. Please configure it in settings.");
+  }
+
+  // Clean the base64 string if it has the prefix
+  let imageUrl = page.image;
+  if (!page.image.startsWith('data:')) {
+    imageUrl = `data:image/jpeg;base64,${page.image}`;
+  }
+
+  const prompt = buildVisionPrompt(config, page);
+
+  // Smart URL Construction Logic
+  let url = config.baseUrl.trim();
+  if (url.endsWith('/')) url = url.slice(0, -1);
+
+  let endpoint = url;
+  if (url.endsWith('/chat/completions')) {
+      endpoint = url;
+  } else if (url.endsWith('/v1')) {
+      endpoint = `${url}/chat/completions`;
+  } else {
+      endpoint = `${url}/v1/chat/completions`;
+  }
+
+  console.log(`[Translation] Using API Endpoint: ${endpoint}`);
+  const limiter = rateLimiterFor(config, 'OpenAI');
+
+  const request = { 
+    role: "user",
+    content: [
+      { type: "text", text: prompt },
+      { 
+        type: "image_url", 
+        image_url: { 
+          url: imageUrl,
+          detail: "high"
+        } 
+      }
+    ]
+  };
+
+  // A continuation replays the answer so far as the assistant's turn and asks for the rest
+  const generate: GenerateTurn = (previous, onTurnPartial) => withRetries(async () => {
+    const body = {
+      model: config.modelName,
+      messages: previous
+        ? [request, { role: "assistant", content: previous }, { role: "user", content: CONTINUATION_PROMPT }]
+        : [request],
+      max_tokens: 4096,
+      temperature: 0.3
+    };
+    const options = { headers: { 'Authorization': `Bearer ${config.apiKey}` }, label: 'API', signal, limiter };
+
+    let text: string;
+    let finishReason: string | undefined;
+    if (onTurnPartial) {
+      ({ text, finishReason } = await streamCompletion(endpoint, body, options, onTurnPartial, meter));
+    } else {
+      const data = await postJson(endpoint, body, options);
+      recordTokens(meter, data.usage?.prompt_tokens, data.usage?.completion_tokens);
+      text = data.choices?.[0]?.message?.content || '';
+      finishReason = data.choices?.[0]?.finish_reason;
+    }
+    
+    if (!text && !previous) {
+        if (finishReason === 'content_filter') {
+            throw new ProviderRefusalError("Content was filtered by the AI provider.");
+        }
+        throw new ProviderRefusalError("Empty response from API. The model might not support image inputs or the prompt.");
+    }
+
+    return { text, truncated: finishReason === 'length' };
+  }, { label: 'OpenAI', signal, meter, limiter, tokens: estimateRequestTokens(prompt + previous, 1) });
+
+  try {
+    return await generateWithContinuation(generate, onPartial);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Translation Error:", error);
+    throw error;
+  }
+};
+
+export const openaiProvider: TranslationProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  tagline: 'AI Vision (High Accuracy)',
+  accent: 'blue',
+  input: 'image',
+  capabilities: { preservesLayout: true, usesModel: true, streaming: true },
+  defaults: { baseUrl: 'https://api.openai.com/v1', apiKey: '', modelName: 'gpt-4o', render: { maxDimension: 768, imageQuality: 0.4, tiling: 'off' }, rateLimits: NO_RATE_LIMITS },
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'API Base URL',
+      type: 'text',
+      icon: 'server',
+      placeholder: 'https://api.openai.com/v1',
+      help: 'e.g. https://529961.com or https://api.openai.com/v1',
+      required: true
+    },
+    { key: 'apiKey', label: 'API Key', type: 'password', icon: 'key', placeholder: 'sk-...', required: true },
+    { key: 'modelName', label: 'Model Name', type: 'text', icon: 'model', placeholder: 'gpt-4o', required: true }
+  ],
+  translate: translateWithOpenAI
+};
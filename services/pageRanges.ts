@@ -0,0 +1,46 @@
+// Page range expressions like "5-20, 33" <-> page indices (0-based).
+
+export interface ParsedRanges {
+  indices: number[]; // Sorted, without duplicates
+  error: string | null;
+}
+
+// Accepts single pages, ranges with "-" or "–", and open ends ("30-" is 30 to the last page)
+export const parsePageRanges = (input: string, numPages: number): ParsedRanges => {
+  const selected = new Set<number>();
+
+  for (const part of input.split(/[,;]/).map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d*)\s*(?:[-–]\s*(\d*))?$/.exec(part);
+    if (!match || (!match[1] && !match[2])) {
+      return { indices: [], error: `"${part}" is not a page or range.` };
+    }
+
+    const isRange = part.includes('-') || part.includes('–');
+    const from = match[1] ? Number(match[1]) : 1;
+    const to = isRange ? (match[2] ? Number(match[2]) : numPages) : from;
+
+    if (from < 1 || to > numPages || from > numPages) {
+      return { indices: [], error: `"${part}" is outside pages 1-${numPages}.` };
+    }
+    if (from > to) {
+      return { indices: [], error: `"${part}" runs backwards.` };
+    }
+    for (let page = from; page <= to; page++) selected.add(page - 1);
+  }
+
+  return { indices: Array.from(selected).sort((a, b) => a - b), error: null };
+};
+
+// Formats indices as the shortest range expression, e.g. [4, 5, 6, 32] -> "5-7, 33"
+export const formatPageRanges = (indices: number[]): string => {
+  const sorted = Array.from(new Set(indices)).sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(sorted[i] === start ? `${start + 1}` : `${start + 1}-${sorted[i] + 1}`);
+  }
+
+  return parts.join(', ');
+};
@@ -0,0 +1,42 @@
+import { ApiConfig, PageProfile, PageRoute } from "../types";
+import { getProvider, switchProvider } from "./providers";
+
+// Auto routing: pages with a real text layer go to the (fast, cheap) text provider; scans,
+// image-heavy pages and pages that are mostly graphics go to the vision provider.
+
+// Fewer characters than this is a scan, a cover or a full-page figure
+const MIN_TEXT_CHARS = 50;
+// Raster images covering more than this share of the page: likely a scan with an OCR layer, or a figure
+const MAX_IMAGE_COVERAGE = 0.5;
+// Text runs covering less than this share of the page: mostly vector graphics, charts or tables of figures
+const MIN_TEXT_COVERAGE = 0.04;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const choosePipeline = (profile: PageProfile): Omit<PageRoute, 'provider'> => {
+  if (profile.charCount < MIN_TEXT_CHARS) {
+    return {
+      pipeline: 'vision',
+      reason: profile.charCount === 0
+        ? 'No text layer (scanned or image-only page)'
+        : `Only ${profile.charCount} characters in the text layer`
+    };
+  }
+  if (profile.imageCoverage > MAX_IMAGE_COVERAGE) {
+    return { pipeline: 'vision', reason: `Images cover ${percent(profile.imageCoverage)} of the page` };
+  }
+  if (profile.textCoverage < MIN_TEXT_COVERAGE) {
+    return { pipeline: 'vision', reason: `Text covers only ${percent(profile.textCoverage)} of the page` };
+  }
+  return { pipeline: 'text', reason: `Text layer with ${profile.charCount.toLocaleString()} characters` };
+};
+
+// Picks the pipeline for a page and returns the config to translate it with
+export const routePage = (profile: PageProfile, config: ApiConfig): { route: PageRoute; config: ApiConfig } => {
+  const { pipeline, reason } = choosePipeline(profile);
+  const provider = getProvider(pipeline === 'text' ? config.textProvider : config.visionProvider).id;
+  return {
+    route: { pipeline, provider, reason },
+    config: switchProvider(config, provider)
+  };
+};
@@ -0,0 +1,84 @@
+import { PageProfile, PageText } from "../types";
+import { blocksToText } from "./textLayout";
+import type { StripBand } from "./pdfService";
+
+// Tiling mode for dense pages: the page is cut into overlapping horizontal strips, each strip is
+// translated on its own at the resolution of a whole page, and the HTML is joined in order.
+
+export const MAX_TILES = 4;
+// Share of the page height each strip repeats from the one above, so lines cut by an edge are readable
+export const TILE_OVERLAP = 0.06;
+// Text-layer characters one request handles well; denser pages lose small print and get truncated
+export const CHARS_PER_TILE = 2500;
+// Pages taller than A4 (842pt) by this factor are split even without a text layer (posters, scans of A3)
+const TALL_PAGE_HEIGHT = 842 * 1.2;
+
+export const chooseTileCount = (profile: PageProfile): number => {
+  const byText = Math.ceil(profile.charCount / CHARS_PER_TILE);
+  const bySize = Math.ceil(profile.height / TALL_PAGE_HEIGHT);
+  return Math.min(MAX_TILES, Math.max(1, byText, bySize));
+};
+
+// Equal strips from top to bottom, each starting a little above its own part of the page
+export const tileBands = (count: number): StripBand[] => {
+  return Array.from({ length: count }, (_, i) => ({
+    overlapTop: Math.max(0, i / count - TILE_OVERLAP),
+    top: i / count,
+    bottom: (i + 1) / count
+  }));
+};
+
+// The blocks of the text layer that start in a strip's own part of the page. Blocks without
+// positions can't be placed and go with the first strip.
+export const tileText = (pageText: PageText | null, band: Pick<StripBand, 'top' | 'bottom'>): PageText | null => {
+  if (!pageText) return null;
+  const blocks = pageText.blocks.filter(block => {
+    const y = block.lines?.[0]?.box.y;
+    if (y === undefined) return band.top === 0;
+    return y >= band.top && (y < band.bottom || band.bottom >= 1);
+  });
+  return { text: blocksToText(blocks), blocks };
+};
+
+const normalizedText = (element: Element | null) => (element?.textContent || '').replace(/\s+/g, ' ').trim();
+
+const columnCount = (table: Element) => {
+  const row = table.querySelector('tr');
+  return row ? Array.from(row.children).reduce((sum, cell) => sum + (Number(cell.getAttribute('colspan')) || 1), 0) : 0;
+};
+
+// Joins the translated strips. Where the models repeated content from the overlap, the duplicated
+// element at the seam is dropped, and a table split by a seam is merged back into one.
+export const mergeTileHtml = (parts: string[]): string => {
+  const parser = new DOMParser();
+  const output = parser.parseFromString('', 'text/html').body;
+
+  parts.forEach(part => {
+    const body = parser.parseFromString(part, 'text/html').body;
+    const previous = output.lastElementChild;
+    let first = body.firstElementChild;
+
+    if (previous && first && normalizedText(previous) && normalizedText(previous) === normalizedText(first)) {
+      first.remove();
+      first = body.firstElementChild;
+    }
+
+    if (previous?.tagName === 'TABLE' && first?.tagName === 'TABLE' && columnCount(previous) === columnCount(first)) {
+      const bodies = previous.querySelectorAll('tbody');
+      const target = bodies[bodies.length - 1] || previous;
+      const previousRows = previous.querySelectorAll('tr');
+      const lastRow = previousRows[previousRows.length - 1];
+      // A repeated header row is dropped, since the table already has one
+      const rows = Array.from(first.querySelectorAll('tr')).filter(row => row.parentElement?.tagName !== 'THEAD');
+      rows.forEach((row, i) => {
+        if (i === 0 && lastRow && normalizedText(row) === normalizedText(lastRow)) return;
+        target.appendChild(row);
+      });
+      first.remove();
+    }
+
+    output.append(...Array.from(body.childNodes));
+  });
+
+  return output.innerHTML.trim();
+};
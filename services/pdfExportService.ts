@@ -0,0 +1,447 @@
+import jsPDF from 'jspdf';
+import autoTable, { CellDef, RowInput } from 'jspdf-autotable';
+import { TranslatedPage } from '../types';
+import { getExportFont, getLanguage } from './languages';
+import { BLOCK_TAGS, Align, alignOf, untranslatedNotice, pagesForExport, parseTranslatedHtml } from './exportUtils';
+import { subsetFont } from './fontSubsetter';
+
+// Vector PDF export: the translated HTML is laid out as real (searchable, selectable) text with the
+// embedded font for the target script. Content that doesn't fit flows onto extra pages.
+
+const MARGIN = 18; // mm
+const LABEL_Y = 9; // Page labels sit inside the top margin
+const PT_TO_MM = 25.4 / 72;
+const LINE_HEIGHT = 1.45;
+const BODY_SIZE = 10.5;
+const TABLE_SIZE = 9;
+const LIST_INDENT = 6;
+const HEADING_SIZES: Record<string, number> = { h1: 18, h2: 15, h3: 13, h4: 12, h5: 11, h6: 11 };
+
+// translation: translated pages only; side-by-side: original image left, translation right (landscape);
+// interleaved: each original page followed by its translation
+export type PdfLayout = 'translation' | 'side-by-side' | 'interleaved';
+
+export interface PdfExportOptions {
+  pages: TranslatedPage[];
+  targetLang: string;
+  layout?: PdfLayout;
+  // Leave out pages that weren't translated instead of marking them
+  skipFailed?: boolean;
+  fileName?: string;
+  onStatus?: (message: string) => void;
+}
+
+// Horizontal slice of the page the text flows in (the full width by default)
+interface LayoutFrame {
+  left?: number;
+  width?: number;
+  // Called on every extra page a translated page overflows onto
+  onContinuationPage?: () => void;
+}
+
+type Color = number | [number, number, number];
+
+interface BlockContext {
+  indent: number;
+  preserveWhitespace?: boolean;
+}
+
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to avoid call stack limits on large fonts
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return window.btoa(binary);
+};
+
+// Fonts are served from public/fonts, next to the app, so exports work offline
+const fontAssetUrl = (fileName: string) => `${import.meta.env.BASE_URL}fonts/${fileName}`;
+
+// Registers the font for the target script, subset to the characters in `text`, and returns its name.
+// Throws rather than falling back to Helvetica, which would silently drop every non-Latin glyph.
+export const loadExportFont = async (doc: jsPDF, targetLang: string, text: string): Promise<string> => {
+  const exportFont = getExportFont(targetLang);
+  const languageName = getLanguage(targetLang).name;
+  const missingFont = `The ${languageName} export font (public/fonts/${exportFont.fileName}) is not available. ` +
+    'Run "npm run fonts" to download it, then rebuild or restart the app.';
+
+  let response: Response;
+  try {
+    response = await fetch(fontAssetUrl(exportFont.fileName));
+  } catch {
+    throw new Error(missingFont);
+  }
+  // Dev servers answer unknown paths with index.html, so check what came back
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || contentType.includes('text/html')) {
+    throw new Error(missingFont);
+  }
+
+  const subset = await subsetFont(await response.arrayBuffer(), text);
+  doc.addFileToVFS(exportFont.fileName, toBase64(subset));
+  // The same face doubles as "bold" so headings and table headers don't fall back to Helvetica
+  doc.addFont(exportFont.fileName, exportFont.fontName, 'normal');
+  doc.addFont(exportFont.fileName, exportFont.fontName, 'bold');
+  return exportFont.fontName;
+};
+
+const normalizeText = (text: string, preserveWhitespace = false): string => {
+  if (preserveWhitespace) return text.replace(/^\n+|\n+$/g, '');
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+};
+
+// Flattens inline markup into text. <br> and nested blocks (e.g. <p> inside <td>) become line breaks.
+const collectText = (nodes: Node[], preserveWhitespace = false): string => {
+  let text = '';
+  nodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const value = node.textContent || '';
+      text += preserveWhitespace ? value : value.replace(/\s+/g, ' ');
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const tag = (node as Element).tagName.toLowerCase();
+      const inner = collectText(Array.from(node.childNodes), preserveWhitespace);
+      if (tag === 'br') text += '\n';
+      else if (BLOCK_TAGS.has(tag)) text += `\n${inner}\n`;
+      else text += inner;
+    }
+  });
+  return text;
+};
+
+const textOf = (element: Element, preserveWhitespace = false) =>
+  normalizeText(collectText(Array.from(element.childNodes), preserveWhitespace), preserveWhitespace);
+
+const setColor = (doc: jsPDF, color: Color) => {
+  if (Array.isArray(color)) doc.setTextColor(color[0], color[1], color[2]);
+  else doc.setTextColor(color);
+};
+
+export const createPdfLayout = (doc: jsPDF, fontName: string, frame: LayoutFrame = {}) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const left = frame.left ?? MARGIN;
+  const contentWidth = frame.width ?? pageWidth - MARGIN * 2;
+  const right = left + contentWidth;
+  let y = MARGIN;
+  let pageLabel = '';
+  let labelStartPage = 0;
+  const decoratedPages = new Set<number>();
+
+  const currentPage = () => doc.getCurrentPageInfo().pageNumber;
+
+  // Keeps the original page number visible on every PDF page a translated page flows onto
+  const decoratePage = () => {
+    const page = currentPage();
+    if (!pageLabel || decoratedPages.has(page)) return;
+    decoratedPages.add(page);
+    const isContinuation = page !== labelStartPage;
+    doc.setFont(fontName, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(isContinuation ? `${pageLabel} (continued)` : pageLabel, pageWidth - MARGIN, LABEL_Y, { align: 'right', baseline: 'top' });
+    doc.setTextColor(0);
+    if (isContinuation) frame.onContinuationPage?.();
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+    decoratePage();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) newPage();
+  };
+
+  const space = (height: number) => {
+    y = Math.min(y + height, pageHeight - MARGIN);
+  };
+
+  const writeText = (text: string, options: { size?: number; indent?: number; align?: Align; bold?: boolean; color?: Color } = {}) => {
+    const size = options.size ?? BODY_SIZE;
+    const indent = options.indent ?? 0;
+    const align = options.align ?? 'left';
+    const width = contentWidth - indent;
+    const lineHeight = size * PT_TO_MM * LINE_HEIGHT;
+
+    doc.setFont(fontName, options.bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    setColor(doc, options.color ?? 20);
+    const lines: string[] = doc.splitTextToSize(text, width);
+    const x = align === 'center' ? left + indent + width / 2 : align === 'right' ? right : left + indent;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, x, y, { align, baseline: 'top' });
+      y += lineHeight;
+    });
+    doc.setTextColor(0);
+  };
+
+  // Boxed note, used for image placeholders (dashed) and untranslated pages (solid)
+  const writeBox = (text: string, options: { indent?: number; dashed?: boolean; color?: Color } = {}) => {
+    const indent = options.indent ?? 0;
+    doc.setFont(fontName, 'normal');
+    doc.setFontSize(TABLE_SIZE);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent - 8);
+    const height = lines.length * TABLE_SIZE * PT_TO_MM * LINE_HEIGHT + 6;
+    ensureSpace(height);
+    doc.setDrawColor(180);
+    if (options.dashed) doc.setLineDashPattern([1, 1], 0);
+    doc.rect(left + indent, y, contentWidth - indent, height);
+    doc.setLineDashPattern([], 0);
+    const top = y;
+    y += 3;
+    writeText(text, { size: TABLE_SIZE, indent, align: 'center', color: options.color ?? 110 });
+    y = top + height + 2;
+  };
+
+  const writeRule = () => {
+    ensureSpace(4);
+    doc.setDrawColor(200);
+    doc.line(left, y + 2, right, y + 2);
+    y += 4;
+  };
+
+  const tableRows = (rows: HTMLTableRowElement[]): RowInput[] => rows.map(row =>
+    Array.from(row.cells).map(cell => {
+      const def: CellDef = {
+        content: textOf(cell),
+        colSpan: cell.colSpan > 1 ? cell.colSpan : undefined,
+        rowSpan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+        styles: {
+          halign: alignOf(cell),
+          fontStyle: cell.tagName.toLowerCase() === 'th' ? 'bold' : 'normal'
+        }
+      };
+      return def;
+    })
+  );
+
+  const writeTable = (table: HTMLTableElement, indent: number) => {
+    if (table.caption) writeText(textOf(table.caption), { size: TABLE_SIZE, indent, bold: true });
+
+    const rows = Array.from(table.rows);
+    let headRows = rows.filter(row => row.parentElement?.tagName.toLowerCase() === 'thead');
+    let bodyRows = rows.filter(row => row.parentElement?.tagName.toLowerCase() !== 'thead');
+    // Models often emit the header as a plain first row of <th> cells
+    if (headRows.length === 0 && bodyRows.length > 1 && Array.from(bodyRows[0].cells).every(c => c.tagName.toLowerCase() === 'th')) {
+      headRows = [bodyRows[0]];
+      bodyRows = bodyRows.slice(1);
+    }
+    if (headRows.length === 0 && bodyRows.length === 0) return;
+
+    ensureSpace(10);
+    autoTable(doc, {
+      head: tableRows(headRows),
+      body: tableRows(bodyRows),
+      startY: y,
+      theme: 'grid',
+      // Repeated header rows keep multi-page tables readable
+      showHead: 'everyPage',
+      margin: { top: MARGIN, bottom: MARGIN, left: left + indent, right: pageWidth - right },
+      styles: {
+        font: fontName,
+        fontSize: TABLE_SIZE,
+        cellPadding: 1.5,
+        overflow: 'linebreak',
+        lineColor: [203, 213, 225],
+        lineWidth: 0.1,
+        textColor: [20, 20, 20]
+      },
+      headStyles: { fillColor: [241, 245, 249], textColor: [20, 20, 20], fontStyle: 'bold' },
+      willDrawPage: () => decoratePage()
+    });
+    // jspdf-autotable records where the table ended on the document, but its types don't declare it
+    y = ((doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? y) + 4;
+  };
+
+  const writeList = (list: Element, ctx: BlockContext) => {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    let counter = Number(list.getAttribute('start')) || 1;
+    Array.from(list.children).forEach(item => {
+      if (item.tagName.toLowerCase() !== 'li') {
+        writeBlock(item, ctx);
+        return;
+      }
+      const marker = ordered ? `${counter++}.` : '•';
+      // Inline content goes next to the marker; nested lists and blocks follow, indented
+      const inlineNodes = Array.from(item.childNodes).filter(n => !(n.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((n as Element).tagName.toLowerCase())));
+      const text = normalizeText(collectText(inlineNodes));
+      if (text) writeText(`${marker} ${text}`, { indent: ctx.indent + LIST_INDENT });
+      Array.from(item.children)
+        .filter(child => BLOCK_TAGS.has(child.tagName.toLowerCase()))
+        .forEach(child => writeBlock(child, { ...ctx, indent: ctx.indent + LIST_INDENT * 2 }));
+    });
+    space(1.5);
+  };
+
+  // Renders children, grouping runs of inline nodes into paragraphs
+  const writeChildren = (parent: Element, ctx: BlockContext) => {
+    let inlineRun: Node[] = [];
+    const flush = () => {
+      const text = normalizeText(collectText(inlineRun, ctx.preserveWhitespace), ctx.preserveWhitespace);
+      if (text) {
+        writeText(text, { indent: ctx.indent, align: alignOf(parent) });
+        space(2);
+      }
+      inlineRun = [];
+    };
+
+    parent.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName.toLowerCase())) {
+        flush();
+        writeBlock(child as Element, ctx);
+      } else {
+        inlineRun.push(child);
+      }
+    });
+    flush();
+  };
+
+  const writeBlock = (element: Element, ctx: BlockContext) => {
+    const tag = element.tagName.toLowerCase();
+
+    if (HEADING_SIZES[tag]) {
+      const size = HEADING_SIZES[tag];
+      space(size * PT_TO_MM * 0.6);
+      writeText(textOf(element), { size, indent: ctx.indent, align: alignOf(element), bold: true });
+      space(2);
+    } else if (tag === 'table') {
+      writeTable(element as HTMLTableElement, ctx.indent);
+    } else if (tag === 'ul' || tag === 'ol') {
+      writeList(element, ctx);
+    } else if (tag === 'hr') {
+      writeRule();
+    } else if (tag === 'pre') {
+      writeChildren(element, { ...ctx, preserveWhitespace: true });
+    } else if (tag === 'blockquote' || tag === 'dd') {
+      writeChildren(element, { ...ctx, indent: ctx.indent + LIST_INDENT });
+    } else if (element.classList.contains('image-placeholder')) {
+      writeBox(textOf(element), { indent: ctx.indent, dashed: true });
+    } else {
+      writeChildren(element, ctx);
+    }
+  };
+
+  return {
+    // Starts a translated page on a fresh PDF page
+    startPage: (label: string, addPage: boolean) => {
+      pageLabel = label;
+      decoratedPages.clear();
+      if (addPage) doc.addPage();
+      y = MARGIN;
+      labelStartPage = currentPage();
+      decoratePage();
+    },
+    writeHtml: (html: string) => {
+      writeChildren(parseTranslatedHtml(html), { indent: 0 });
+    },
+    writeText,
+    writeBox,
+    space,
+  };
+};
+
+// Scales a page image to fit the given box, keeping its aspect ratio, and centers it horizontally
+const drawImageFit = (doc: jsPDF, dataUrl: string, x: number, y: number, maxWidth: number, maxHeight: number) => {
+  const props = doc.getImageProperties(dataUrl);
+  const ratio = Math.min(maxWidth / props.width, maxHeight / props.height);
+  const width = props.width * ratio;
+  const height = props.height * ratio;
+  doc.addImage(dataUrl, 'JPEG', x + (maxWidth - width) / 2, y, width, height);
+  doc.setDrawColor(210);
+  doc.rect(x + (maxWidth - width) / 2, y, width, height);
+};
+
+// Printable ASCII covers the labels, page numbers and list markers the exporter adds itself
+const ASCII_GLYPHS = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+
+// Every character the export can draw, so the embedded font subset isn't missing any
+const glyphsUsed = (pages: TranslatedPage[]) => {
+  const text = pages.map(page =>
+    page.status === 'completed' ? parseTranslatedHtml(page.translatedHtml).textContent || '' : untranslatedNotice(page)
+  );
+  return `${ASCII_GLYPHS}\u2022${text.join('')}`;
+};
+
+export const exportTranslatedPdf = async ({
+  pages,
+  targetLang,
+  layout = 'translation',
+  skipFailed = false,
+  fileName = 'translated_document.pdf',
+  onStatus
+}: PdfExportOptions) => {
+  const targetLanguage = getLanguage(targetLang);
+  const doc = new jsPDF({ orientation: layout === 'side-by-side' ? 'l' : 'p', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const exported = pagesForExport(pages, skipFailed);
+
+  onStatus?.(`Loading ${targetLanguage.name} fonts...`);
+  const fontName = await loadExportFont(doc, targetLang, glyphsUsed(exported));
+
+  // Side-by-side splits the landscape page into two columns; text flows in the right one
+  const columnWidth = (pageWidth - MARGIN * 3) / 2;
+  const textLayout = layout === 'side-by-side'
+    ? createPdfLayout(doc, fontName, {
+        left: MARGIN * 2 + columnWidth,
+        width: columnWidth,
+        onContinuationPage: () => {
+          doc.setFont(fontName, 'normal');
+          doc.setFontSize(9);
+          doc.setTextColor(150);
+          doc.text('(original shown on the previous page)', MARGIN + columnWidth / 2, MARGIN, { align: 'center', baseline: 'top' });
+          doc.setTextColor(0);
+        }
+      })
+    : createPdfLayout(doc, fontName);
+
+  // Title page
+  doc.setFont(fontName, 'normal');
+  doc.setFontSize(20);
+  doc.text("Translated Document", pageWidth / 2, 20, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(`${targetLanguage.name} translation, generated by PDF Translate Pro`, pageWidth / 2, 30, { align: "center" });
+  if (skipFailed && exported.length < pages.length) {
+    doc.setFontSize(10);
+    doc.setTextColor(150);
+    const skipped = pages.filter(page => page.status !== 'completed').map(page => page.pageNumber);
+    doc.text(`Untranslated pages left out: ${skipped.join(', ')}`, pageWidth / 2, 40, { align: "center", maxWidth: pageWidth - MARGIN * 2 });
+    doc.setTextColor(0);
+  }
+
+  for (let i = 0; i < exported.length; i++) {
+    onStatus?.(`Processing page ${i + 1} of ${exported.length}...`);
+    const page = exported[i];
+
+    if (layout === 'interleaved' && page.originalImage) {
+      textLayout.startPage(`Page ${page.pageNumber} - original`, true);
+      drawImageFit(doc, page.originalImage, MARGIN, MARGIN, pageWidth - MARGIN * 2, pageHeight - MARGIN * 2);
+    }
+
+    textLayout.startPage(`Page ${page.pageNumber}`, true);
+    if (layout === 'side-by-side' && page.originalImage) {
+      drawImageFit(doc, page.originalImage, MARGIN, MARGIN, columnWidth, pageHeight - MARGIN * 2);
+    }
+
+    if (page.status === 'completed') {
+      textLayout.writeHtml(page.translatedHtml);
+    } else {
+      textLayout.writeBox(untranslatedNotice(page), { color: [185, 28, 28] });
+    }
+    // Yield so the status message can repaint on long documents
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  onStatus?.('Saving file...');
+  doc.save(fileName);
+};
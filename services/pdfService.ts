@@ -1,9 +1,12 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { PageProfile, PageText, RenderSettings } from '../types';
+import { analyzeTextLayout, blocksToText, TextLayoutItem } from './textLayout';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
 // Initialize worker
-// We use unpkg to ensure we fetch the worker file that matches the version of the library we are using.
-// Using the .mjs extension is crucial for modern bundlers and ESM environments to load the worker correctly as a module.
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+// The worker is bundled as a local asset by Vite, so it always matches the library version and
+// loads without network access. The .mjs build is required to load it as a module worker.
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 export const loadPdf = async (file: File): Promise<pdfjsLib.PDFDocumentProxy> => {
   const arrayBuffer = await file.arrayBuffer();
@@ -11,50 +14,169 @@ export const loadPdf = async (file: File): Promise<pdfjsLib.PDFDocumentProxy> =>
   return loadingTask.promise;
 };
 
-export const renderPageToImage = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number, scale = 1.0): Promise<string> => {
-  const page = await pdf.getPage(pageNum);
-  
-  // Calculate viewport with requested scale
-  let viewport = page.getViewport({ scale });
-  
-  // Safety cap: Limit maximum dimension to prevent payload size issues with the API
-  // 768px is sufficient for text recognition while keeping the payload size small to avoid XHR errors
-  const MAX_DIMENSION = 768;
-  if (viewport.width > MAX_DIMENSION || viewport.height > MAX_DIMENSION) {
-    const scaleFactor = Math.min(MAX_DIMENSION / viewport.width, MAX_DIMENSION / viewport.height);
-    viewport = page.getViewport({ scale: scale * scaleFactor });
-  }
-  
+// Bounds for the per-provider resolution setting
+export const MIN_RENDER_DIMENSION = 512;
+export const MAX_RENDER_DIMENSION = 2048;
+
+type RenderOptions = Pick<RenderSettings, 'maxDimension' | 'imageQuality'>;
+
+// Renders a page to a canvas at `scale` (1 = PDF points)
+const renderToCanvas = async (page: pdfjsLib.PDFPageProxy, scale: number): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d');
-  
+
   if (!context) {
     throw new Error('Could not get canvas context');
   }
 
-  canvas.height = viewport.height;
-  canvas.width = viewport.width;
+  canvas.height = Math.round(viewport.height);
+  canvas.width = Math.round(viewport.width);
 
   await page.render({
     canvasContext: context,
     viewport: viewport,
   }).promise;
+  return canvas;
+};
+
+// Renders a page as a JPEG data URL whose longest side is `maxDimension`. Larger images read
+// better but make bigger requests; providers set their own limits (see RenderSettings).
+export const renderPageToImage = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNum: number,
+  { maxDimension, imageQuality }: RenderOptions
+): Promise<string> => {
+  const page = await pdf.getPage(pageNum);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const canvas = await renderToCanvas(page, maxDimension / Math.max(width, height));
+  return canvas.toDataURL('image/jpeg', imageQuality);
+};
+
+// Bounds of a horizontal strip, in fractions of the page height. The strip's image starts at
+// `overlapTop`, above its own part at `top`, so text cut by the previous edge is shown whole.
+export interface StripBand {
+  overlapTop: number;
+  top: number;
+  bottom: number;
+}
+
+// Renders a page once and cuts it into strips. The scale is chosen so the longest side of the
+// largest strip is `maxDimension`, which gives each strip the resolution of a whole page.
+// The overlap is shaded so the model can tell it was covered by the strip above.
+export const renderPageStrips = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNum: number,
+  bands: StripBand[],
+  { maxDimension, imageQuality }: RenderOptions
+): Promise<string[]> => {
+  const page = await pdf.getPage(pageNum);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const tallest = Math.max(...bands.map(band => band.bottom - band.overlapTop)) * height;
+  const source = await renderToCanvas(page, maxDimension / Math.max(width, tallest));
+
+  return bands.map(band => {
+    const y = Math.round(band.overlapTop * source.height);
+    const overlap = Math.round(band.top * source.height) - y;
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = Math.round(band.bottom * source.height) - y;
 
-  // Return base64 image, clean format
-  // Aggressively lower quality to 0.4 to ensure the payload size stays within safe limits for the API (avoiding error code 6)
-  const base64 = canvas.toDataURL('image/jpeg', 0.4);
-  return base64;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+    context.drawImage(source, 0, -y);
+    if (overlap > 0) {
+      context.fillStyle = 'rgba(128, 128, 128, 0.35)';
+      context.fillRect(0, 0, canvas.width, overlap);
+    }
+    return canvas.toDataURL('image/jpeg', imageQuality);
+  });
 };
 
-export const extractPageText = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number): Promise<string> => {
+// Extracts the text layer with its reading order and paragraph structure rebuilt from item positions
+export const extractPageText = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number): Promise<PageText> => {
   const page = await pdf.getPage(pageNum);
   const textContent = await page.getTextContent();
-  
-  // Basic text extraction joining items with space
-  // This loses structural layout but provides the raw content for DeepLX
-  return textContent.items
-    .map((item: any) => item.str)
-    .join(' ');
+
+  // Marked-content entries carry no text or position
+  const items = textContent.items.filter(item => 'str' in item) as TextLayoutItem[];
+
+  // Line positions as fractions of the rendered page, for highlighting in the viewer
+  const viewport = page.getViewport({ scale: 1 });
+  const blocks = analyzeTextLayout(items, (left, bottom, right, top) => {
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([left, bottom, right, top]);
+    return {
+      x: Math.min(x1, x2) / viewport.width,
+      y: Math.min(y1, y2) / viewport.height,
+      width: Math.abs(x2 - x1) / viewport.width,
+      height: Math.abs(y2 - y1) / viewport.height
+    };
+  });
+  return { text: blocksToText(blocks), blocks };
+};
+
+type Matrix = [number, number, number, number, number, number];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+// Measures how much of the page is text and how much is raster images, for auto routing.
+// Images are drawn into the unit square, so their area is the determinant of the transform in effect.
+export const inspectPageContent = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number): Promise<PageProfile> => {
+  const page = await pdf.getPage(pageNum);
+  const [x0, y0, x1, y1] = page.view;
+  const pageArea = Math.abs((x1 - x0) * (y1 - y0)) || 1;
+
+  const textContent = await page.getTextContent();
+  let charCount = 0;
+  let textArea = 0;
+  textContent.items.forEach(item => {
+    if (!('str' in item)) return;
+    charCount += item.str.replace(/\s/g, '').length;
+    textArea += Math.abs(item.width * item.height);
+  });
+
+  const { OPS } = pdfjsLib;
+  const imageOps = new Set([OPS.paintImageXObject, OPS.paintInlineImageXObject, OPS.paintImageMaskXObject]);
+  const operators = await page.getOperatorList();
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let imageArea = 0;
+
+  operators.fnArray.forEach((fn, i) => {
+    const args = operators.argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args as Matrix);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args[0])) ctm = multiply(ctm, args[0] as Matrix);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() || ctm;
+    } else if (imageOps.has(fn)) {
+      imageArea += Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]);
+    }
+  });
+
+  return {
+    width: Math.abs(x1 - x0),
+    height: Math.abs(y1 - y0),
+    charCount,
+    // Capped: overlapping runs and images can add up to more than the page
+    textCoverage: Math.min(1, textArea / pageArea),
+    imageCoverage: Math.min(1, imageArea / pageArea)
+  };
 };
 
 export const getTotalPages = (pdf: pdfjsLib.PDFDocumentProxy): number => {
@@ -0,0 +1,115 @@
+import { ApiConfig, ConfigProfile, ProfileStore } from "../types";
+import { createDefaultConfig, describeConfigProblem, getProvider, DEFAULT_PROVIDER, DEFAULT_TEXT_PROVIDER } from "./providers";
+import { DEFAULT_SOURCE_LANG, DEFAULT_TARGET_LANG } from "./languages";
+import { DEFAULT_CONCURRENCY } from "./scheduler";
+import { DEFAULT_SEGMENT_LENGTH } from "./textSegments";
+
+// Named settings profiles, saved in localStorage. One is active; each can name other profiles
+// that retry the pages it fails on.
+
+const PROFILES_KEY = 'pdf_translate_profiles';
+// Where the single config was saved before profiles existed
+const LEGACY_CONFIG_KEY = 'pdf_translate_config';
+
+// Fills in the fields a config saved by an older version doesn't have yet
+const migrateConfig = (parsed: any): ApiConfig => {
+  // Backwards compatibility for configs without 'provider'
+  if (!parsed.provider) parsed.provider = DEFAULT_PROVIDER;
+  // Configs saved before language selection existed always translated into Simplified Chinese
+  if (!parsed.sourceLang) parsed.sourceLang = DEFAULT_SOURCE_LANG;
+  if (!parsed.targetLang) parsed.targetLang = DEFAULT_TARGET_LANG;
+  if (!parsed.concurrency) parsed.concurrency = DEFAULT_CONCURRENCY;
+  if (parsed.cacheEnabled === undefined) parsed.cacheEnabled = true;
+  if (!parsed.segmentLength) parsed.segmentLength = DEFAULT_SEGMENT_LENGTH;
+  if (parsed.hybridText === undefined) parsed.hybridText = false;
+  if (parsed.streamOutput === undefined) parsed.streamOutput = true;
+  if (!parsed.routingMode) parsed.routingMode = 'single';
+  if (!parsed.textProvider) parsed.textProvider = DEFAULT_TEXT_PROVIDER;
+  if (!parsed.visionProvider) parsed.visionProvider = DEFAULT_PROVIDER;
+  if (!parsed.render) parsed.render = getProvider(parsed.provider).defaults.render;
+  if (!parsed.modelPrices) parsed.modelPrices = {};
+  if (!parsed.rateLimits) parsed.rateLimits = getProvider(parsed.provider).defaults.rateLimits;
+  return parsed;
+};
+
+export const createProfile = (name: string, config: ApiConfig, fallbackIds: string[] = []): ConfigProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  config,
+  fallbackIds
+});
+
+// The saved profiles; the config of older versions becomes the "Default" profile
+export const loadProfiles = (): ProfileStore => {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (saved) {
+    const store: ProfileStore = JSON.parse(saved);
+    store.profiles.forEach(profile => {
+      profile.config = migrateConfig(profile.config);
+      if (!profile.fallbackIds) profile.fallbackIds = [];
+    });
+    if (store.profiles.length > 0) {
+      if (!store.profiles.some(profile => profile.id === store.activeId)) store.activeId = store.profiles[0].id;
+      return store;
+    }
+  }
+
+  const legacy = localStorage.getItem(LEGACY_CONFIG_KEY);
+  const profile = createProfile('Default', legacy ? migrateConfig(JSON.parse(legacy)) : createDefaultConfig());
+  return { activeId: profile.id, profiles: [profile] };
+};
+
+export const saveProfiles = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+};
+
+export const getActiveProfile = (store: ProfileStore): ConfigProfile => {
+  return store.profiles.find(profile => profile.id === store.activeId) || store.profiles[0];
+};
+
+// A copy of a profile under a name no other profile has
+export const duplicateProfile = (store: ProfileStore, source: ConfigProfile): ConfigProfile => {
+  const names = new Set(store.profiles.map(profile => profile.name));
+  let name = `${source.name} (copy)`;
+  for (let n = 2; names.has(name); n++) name = `${source.name} (copy ${n})`;
+  return createProfile(name, source.config, source.fallbackIds);
+};
+
+// Removes a profile, and drops it from the fallback chains of the others
+export const deleteProfile = (store: ProfileStore, id: string): ProfileStore => {
+  const profiles = store.profiles
+    .filter(profile => profile.id !== id)
+    .map(profile => ({ ...profile, fallbackIds: profile.fallbackIds.filter(fallbackId => fallbackId !== id) }));
+  if (profiles.length === 0) return store;
+  return { activeId: store.activeId === id ? profiles[0].id : store.activeId, profiles };
+};
+
+// A profile a job runs on: the first of the chain is the active profile, the rest its fallbacks
+export interface JobProfile {
+  name: string;
+  config: ApiConfig;
+}
+
+// The active profile's config (with the document's languages) followed by its usable fallbacks.
+// Fallbacks translate into the document's languages too, and run at the job's concurrency.
+export const buildFallbackChain = (store: ProfileStore, config: ApiConfig): JobProfile[] => {
+  const active = getActiveProfile(store);
+  const chain: JobProfile[] = [{ name: active.name, config }];
+  active.fallbackIds.forEach(id => {
+    const profile = store.profiles.find(candidate => candidate.id === id);
+    if (!profile || profile.id === active.id) return;
+    const fallbackConfig: ApiConfig = {
+      ...profile.config,
+      sourceLang: config.sourceLang,
+      targetLang: config.targetLang,
+      concurrency: config.concurrency
+    };
+    const problem = describeConfigProblem(fallbackConfig);
+    if (problem) {
+      console.warn(`Skipping fallback profile "${profile.name}": ${problem}`);
+      return;
+    }
+    chain.push({ name: profile.name, config: fallbackConfig });
+  });
+  return chain;
+};
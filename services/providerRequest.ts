@@ -0,0 +1,259 @@
+import { UsageMeter } from "../types";
+import { delay, isAbortError } from "./jobController";
+import { parseRetryAfter, RateLimiter } from "./rateLimiter";
+
+// HTTP plumbing shared by the providers: retries with backoff, rate limiting, JSON and streamed
+// requests and error messages.
+
+const MAX_RETRIES = 3;
+// 429s the server may answer before the page fails. They don't use up the retries: the request
+// was fine, the endpoint is just busy.
+const MAX_RATE_LIMIT_WAITS = 6;
+
+// Errors that won't go away by retrying (bad key, unknown model, malformed request)
+const NON_RETRYABLE_STATUS = new Set([400, 401, 403, 404]);
+
+export class ProviderHttpError extends Error {
+  status: number;
+  retryAfter?: number; // Milliseconds the server asked us to wait, from Retry-After
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The provider answered, but without a usable translation, e.g. an error reported in the middle of
+// a stream. Retried like a failed request.
+export class ProviderAnswerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderAnswerError';
+  }
+}
+
+// An answer the provider would give again for the same page: a content filter, a refusal or an
+// empty answer. Not retried, but another provider may still translate the page.
+export class ProviderRefusalError extends ProviderAnswerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderRefusalError';
+  }
+}
+
+// The request got no answer: the endpoint couldn't be reached or the connection dropped
+export class ProviderNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderNetworkError';
+  }
+}
+
+// Runs a call that goes over the network. fetch() rejects with a TypeError when the endpoint can't be
+// reached; that becomes a ProviderNetworkError, cancellation and anything else pass through.
+export const overNetwork = async <T>(call: () => Promise<T>, label: string): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof TypeError) throw new ProviderNetworkError(`${label}: network request failed (${error.message})`);
+    throw error;
+  }
+};
+
+// Whether another provider may succeed where this error failed the page: rate limits, server and
+// network errors and unusable answers. Configuration problems (bad key, unknown model, malformed
+// request) and our own processing errors are shown instead, so they get fixed.
+export const canFallBack = (error: unknown): boolean => {
+  if (error instanceof ProviderHttpError) return error.status === 408 || error.status === 429 || error.status >= 500;
+  return error instanceof ProviderAnswerError || error instanceof ProviderNetworkError;
+};
+
+interface RetryOptions {
+  label: string; // Used in console warnings
+  signal?: AbortSignal;
+  // Wait before the next attempt; exponential (1s, 2s, 4s...) by default
+  backoff?: (attempt: number) => number;
+  meter?: UsageMeter; // Counts every attempt as a request, and each one after the first as a retry
+  limiter?: RateLimiter; // Every attempt waits for the endpoint's rate limits
+  tokens?: number; // Estimated size of the request, for the tokens-per-minute budget
+}
+
+const exponentialBackoff = (attempt: number) => 1000 * Math.pow(2, attempt - 1);
+
+const meteredTokens = (meter?: UsageMeter) => (meter ? meter.inputTokens + meter.outputTokens : 0);
+
+// Runs `request` up to three times. Cancellation, client errors (4xx above) and refusals fail immediately.
+// A 429 holds back every request to the endpoint for as long as the server asks, then tries again.
+export const withRetries = async <T>(
+  request: () => Promise<T>,
+  { label, signal, backoff = exponentialBackoff, meter, limiter, tokens = 0 }: RetryOptions
+): Promise<T> => {
+  let lastError: unknown;
+  let failures = 0;
+  let rateLimited = 0;
+  for (let attempt = 1; failures < MAX_RETRIES; attempt++) {
+    const ticket = await limiter?.acquire(tokens, signal);
+    if (meter) {
+      meter.requests++;
+      if (attempt > 1) meter.retries++;
+    }
+    const tokensBefore = meteredTokens(meter);
+    try {
+      const result = await request();
+      limiter?.succeeded();
+      ticket?.settle(meteredTokens(meter) - tokensBefore);
+      return result;
+    } catch (error) {
+      // Cancellation is not a failure worth retrying, and a refusal would only be repeated
+      if (isAbortError(error) || signal?.aborted || error instanceof ProviderRefusalError) throw error;
+      console.warn(`${label} attempt ${attempt} failed:`, error);
+      const retryAfter = error instanceof ProviderHttpError ? error.retryAfter : undefined;
+      if (error instanceof ProviderHttpError && error.status === 429 && rateLimited < MAX_RATE_LIMIT_WAITS) {
+        rateLimited++;
+        // With a limiter the next acquire() waits, together with the other requests to this endpoint
+        if (limiter) limiter.rateLimited(retryAfter);
+        else await delay(retryAfter ?? backoff(rateLimited), signal);
+        continue;
+      }
+      if (error instanceof ProviderHttpError && NON_RETRYABLE_STATUS.has(error.status)) throw error;
+      lastError = error;
+      failures++;
+      if (failures < MAX_RETRIES) {
+        await delay(retryAfter ?? backoff(failures), signal);
+      }
+    }
+  }
+  throw lastError;
+};
+
+// Adds the token counts an API reported for one answer. Missing counts are left out rather than guessed.
+export const recordTokens = (meter: UsageMeter | undefined, inputTokens?: number, outputTokens?: number) => {
+  if (!meter) return;
+  meter.inputTokens += inputTokens || 0;
+  meter.outputTokens += outputTokens || 0;
+};
+
+// Builds a readable error from a failed response, preferring the API's own message
+export const readHttpError = async (response: Response, label: string): Promise<ProviderHttpError> => {
+  const errorText = await response.text();
+  let detailedMsg: string;
+  try {
+    const json = JSON.parse(errorText);
+    detailedMsg = json.error?.message || json.message || (typeof json.error === 'string' ? json.error : JSON.stringify(json));
+  } catch {
+    detailedMsg = errorText.substring(0, 300) || response.statusText;
+  }
+  return new ProviderHttpError(`${label} Error ${response.status}: ${detailedMsg}`, response.status, parseRetryAfter(response.headers));
+};
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  label: string; // Prefix of error messages
+  signal?: AbortSignal;
+  limiter?: RateLimiter; // Learns the server's rate limits from the response headers
+}
+
+// POSTs JSON and returns the parsed JSON answer, with clear errors for HTTP failures and non-JSON replies
+export const postJson = async (
+  endpoint: string,
+  body: unknown,
+  { headers = {}, label, signal, limiter }: RequestOptions
+): Promise<any> => {
+  const response = await overNetwork(() => fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  }), label);
+  limiter?.observe(response.headers);
+
+  if (!response.ok) {
+    throw await readHttpError(response, label);
+  }
+
+  const contentType = response.headers.get("content-type");
+  if (!contentType || !contentType.includes("application/json")) {
+    const text = await response.text();
+    throw new Error(`Invalid API Response: Expected JSON but got '${contentType}'. URL: ${endpoint}. Response preview: ${text.substring(0, 150)}...`);
+  }
+  return response.json();
+};
+
+// Calls `onLine` for every complete line of a streamed response body
+const readLines = async (response: Response, label: string, onLine: (line: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await overNetwork(() => reader.read(), label);
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop()!;
+    lines.forEach(onLine);
+    if (done) return;
+  }
+};
+
+// POSTs JSON and hands each streamed message to `onMessage` as it arrives. 'sse' reads server-sent
+// events (OpenAI, Anthropic), 'ndjson' one JSON object per line (Ollama).
+export const postStream = async (
+  endpoint: string,
+  body: unknown,
+  { headers = {}, label, signal, limiter, format = 'sse' }: RequestOptions & { format?: 'sse' | 'ndjson' },
+  onMessage: (message: any) => void
+): Promise<void> => {
+  const response = await overNetwork(() => fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  }), label);
+  limiter?.observe(response.headers);
+
+  if (!response.ok) {
+    throw await readHttpError(response, label);
+  }
+
+  // Some proxies ignore the stream flag and answer with one JSON document
+  const contentType = response.headers.get("content-type") || '';
+  if (contentType.includes("application/json") || !response.body) {
+    onMessage(await response.json());
+    return;
+  }
+
+  // An SSE event's data can span several lines; it ends at a blank line
+  let data: string[] = [];
+  const dispatch = () => {
+    const payload = data.join('\n');
+    data = [];
+    if (payload && payload !== '[DONE]') onMessage(JSON.parse(payload));
+  };
+
+  await readLines(response, label, line => {
+    if (format === 'ndjson') {
+      if (line.trim()) onMessage(JSON.parse(line));
+    } else if (line === '') {
+      dispatch();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+  dispatch();
+};
+
+// Appends `path` to a base URL unless the user already entered the full endpoint
+export const joinEndpoint = (baseUrl: string, path: string): string => {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+  return url.endsWith(path) ? url : `${url}${path}`;
+};
+
+// Splits a data URL into media type and raw base64, as the native image APIs expect
+export const splitDataUrl = (dataUrl: string) => {
+  const match = /^data:([^;,]+);base64,/.exec(dataUrl);
+  return {
+    mimeType: match?.[1] || 'image/jpeg',
+    data: match ? dataUrl.slice(match[0].length) : dataUrl
+  };
+};
@@ -0,0 +1,99 @@
+import { ApiConfig, ApiProvider, ProviderInput, ProviderSettings, TranslationProvider } from "../types";
+import { DEFAULT_SOURCE_LANG, DEFAULT_TARGET_LANG } from "./languages";
+import { DEFAULT_CONCURRENCY } from "./scheduler";
+import { DEFAULT_SEGMENT_LENGTH } from "./textSegments";
+import { openaiProvider } from "./openaiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { anthropicProvider } from "./anthropicProvider";
+import { ollamaProvider } from "./ollamaProvider";
+import { deeplxProvider } from "./deeplxProvider";
+
+// Registry of translation providers. Adding one means writing a TranslationProvider and listing it here:
+// the settings form, validation, labels and the translate dispatch all read from this table.
+
+export const PROVIDERS: Record<ApiProvider, TranslationProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+  deeplx: deeplxProvider,
+};
+
+// Display order in the settings form
+export const PROVIDER_LIST: TranslationProvider[] = [openaiProvider, geminiProvider, anthropicProvider, ollamaProvider, deeplxProvider];
+
+export const DEFAULT_PROVIDER: ApiProvider = 'openai';
+export const DEFAULT_TEXT_PROVIDER: ApiProvider = 'deeplx';
+
+// Candidates for the two pipelines of auto routing
+export const TEXT_PROVIDERS = PROVIDER_LIST.filter(provider => provider.input === 'text');
+export const VISION_PROVIDERS = PROVIDER_LIST.filter(provider => provider.input !== 'text');
+
+export const INPUT_LABELS: Record<ProviderInput, string> = {
+  image: 'Vision',
+  text: 'Text Mode',
+  'image+text': 'Vision + Text',
+};
+
+export const getProvider = (id: ApiProvider): TranslationProvider => {
+  return PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER];
+};
+
+export const createDefaultConfig = (): ApiConfig => ({
+  provider: DEFAULT_PROVIDER,
+  ...getProvider(DEFAULT_PROVIDER).defaults,
+  sourceLang: DEFAULT_SOURCE_LANG,
+  targetLang: DEFAULT_TARGET_LANG,
+  concurrency: DEFAULT_CONCURRENCY,
+  cacheEnabled: true,
+  segmentLength: DEFAULT_SEGMENT_LENGTH,
+  hybridText: false,
+  streamOutput: true,
+  routingMode: 'single',
+  textProvider: DEFAULT_TEXT_PROVIDER,
+  visionProvider: DEFAULT_PROVIDER,
+  modelPrices: {}
+});
+
+// What the active provider reads from each page: vision providers in hybrid mode get the text layer too
+export const configInput = (config: ApiConfig): ProviderInput => {
+  const { input } = getProvider(config.provider);
+  return input === 'image' && config.hybridText ? 'image+text' : input;
+};
+
+// Checks the fields the provider marks as required, then its own rules
+const describeProviderProblem = (config: ApiConfig): string | null => {
+  const provider = getProvider(config.provider);
+  const missing = provider.fields.find(field => field.required && !config[field.key].trim());
+  if (missing) return `Please configure the ${missing.label} for ${provider.name} in settings.`;
+  return provider.validate?.(config) ?? null;
+};
+
+// In auto routing mode both pipelines' providers must be usable, whichever is active in the form
+export const describeConfigProblem = (config: ApiConfig): string | null => {
+  if (config.routingMode !== 'auto') return describeProviderProblem(config);
+  return describeProviderProblem(switchProvider(config, config.textProvider))
+    ?? describeProviderProblem(switchProvider(config, config.visionProvider));
+};
+
+const settingsOf = ({ baseUrl, apiKey, modelName, render, rateLimits }: ApiConfig): ProviderSettings => ({
+  baseUrl, apiKey, modelName, render, rateLimits
+});
+
+// Stores the active provider's settings in providerSettings (call before saving)
+export const withStoredSettings = (config: ApiConfig): ApiConfig => ({
+  ...config,
+  providerSettings: { ...config.providerSettings, [config.provider]: settingsOf(config) }
+});
+
+// Makes another provider active, restoring its previous settings or starting from its defaults.
+// Defaults go first so settings stored before a field existed still get a value for it.
+export const switchProvider = (config: ApiConfig, id: ApiProvider): ApiConfig => {
+  const stored = withStoredSettings(config);
+  return {
+    ...stored,
+    ...getProvider(id).defaults,
+    ...stored.providerSettings?.[id],
+    provider: id
+  };
+};
@@ -0,0 +1,226 @@
+import { ApiConfig, RateLimits, ThrottleNotice } from "../types";
+import { delay } from "./jobController";
+
+// Client-side rate limiting shared by every request to the same endpoint with the same key, across
+// pages and jobs. Requests wait for the configured per-minute budgets, for the limits the server
+// reports in its headers, and for everyone to back off after a 429.
+
+export const NO_RATE_LIMITS: RateLimits = { requestsPerMinute: 0, tokensPerMinute: 0 };
+
+const WINDOW = 60_000;
+// Spacing between requests after a 429: doubles with each one, halves with each success
+const MIN_SPACING = 1000;
+const MAX_SPACING = 16_000;
+// Wait after a 429 without a Retry-After header, doubled for every 429 in a row
+const DEFAULT_RETRY_AFTER = 2000;
+const MAX_RETRY_AFTER = 120_000;
+
+// Rough request size used for the token budget until the provider reports the real count
+const IMAGE_TOKENS = 800;
+const EXPECTED_OUTPUT_TOKENS = 1500;
+
+export const estimateRequestTokens = (text: string, images = 0): number => {
+  return Math.ceil(text.length / 4) + images * IMAGE_TOKENS + (images ? EXPECTED_OUTPUT_TOKENS : 0);
+};
+
+// A granted request; `settle` replaces the estimate with the tokens the request really used
+export interface RateTicket {
+  settle: (tokens: number) => void;
+}
+
+export interface RateLimiter {
+  // Waits until a request of about `tokens` tokens fits every budget. Rejects when the job is cancelled.
+  acquire: (tokens: number, signal?: AbortSignal) => Promise<RateTicket>;
+  // Reads the x-ratelimit-* / anthropic-ratelimit-* headers of a response
+  observe: (headers: Headers) => void;
+  // Called on a 429: holds back every request to this endpoint for `retryAfter` ms (or a growing default)
+  rateLimited: (retryAfter?: number) => number;
+  succeeded: () => void;
+}
+
+// "1s", "6m0s", "20ms", "1h2m3.5s" (OpenAI), or an RFC 3339 date (Anthropic)
+const parseReset = (value: string | null, now: number): number | null => {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  let ms = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    matched = true;
+    ms += Number(amount) * { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[unit as 'ms' | 's' | 'm' | 'h'];
+  }
+  return matched ? now + ms : null;
+};
+
+// Retry-After is either seconds or an HTTP date; some APIs also send retry-after-ms
+export const parseRetryAfter = (headers: Headers, now = Date.now()): number | undefined => {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+interface ServerLimit {
+  remaining: number;
+  resetAt: number;
+}
+
+const readServerLimit = (headers: Headers, kind: 'requests' | 'tokens', now: number): ServerLimit | null => {
+  const remaining = headers.get(`x-ratelimit-remaining-${kind}`) ?? headers.get(`anthropic-ratelimit-${kind}-remaining`);
+  const reset = parseReset(headers.get(`x-ratelimit-reset-${kind}`) ?? headers.get(`anthropic-ratelimit-${kind}-reset`), now);
+  if (remaining === null || reset === null || Number.isNaN(Number(remaining))) return null;
+  return { remaining: Number(remaining), resetAt: reset };
+};
+
+// Endpoints currently holding requests back, for the UI
+const notices = new Map<string, ThrottleNotice>();
+const listeners = new Set<(notices: ThrottleNotice[]) => void>();
+
+const publish = () => {
+  const current = Array.from(notices.values());
+  listeners.forEach(listener => listener(current));
+};
+
+export const subscribeThrottling = (listener: (notices: ThrottleNotice[]) => void): (() => void) => {
+  listeners.add(listener);
+  listener(Array.from(notices.values()));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const createRateLimiter = (key: string, label: string): RateLimiter & { configure: (limits: RateLimits) => void } => {
+  let limits = NO_RATE_LIMITS;
+  // Requests granted in the last minute and their (estimated, later actual) tokens
+  let window: { time: number; tokens: number }[] = [];
+  let pausedUntil = 0;
+  let spacing = 0;
+  let lastGrant = 0;
+  let strikes = 0; // 429s in a row
+  let serverRequests: ServerLimit | null = null;
+  let serverTokens: ServerLimit | null = null;
+  let waiting = 0;
+
+  // How long a request has to wait now, and why; 0 when it can go
+  const waitFor = (tokens: number, now: number): { wait: number; reason: ThrottleNotice['reason'] } => {
+    window = window.filter(entry => now - entry.time < WINDOW);
+    const waits: { wait: number; reason: ThrottleNotice['reason'] }[] = [
+      { wait: pausedUntil - now, reason: 'rate-limited' },
+      { wait: lastGrant + spacing - now, reason: 'rate-limited' }
+    ];
+    if (serverRequests && serverRequests.remaining <= 0) waits.push({ wait: serverRequests.resetAt - now, reason: 'server-limit' });
+    if (serverTokens && serverTokens.remaining < tokens) waits.push({ wait: serverTokens.resetAt - now, reason: 'server-limit' });
+    if (limits.requestsPerMinute > 0 && window.length >= limits.requestsPerMinute) {
+      waits.push({ wait: window[window.length - limits.requestsPerMinute].time + WINDOW - now, reason: 'budget' });
+    }
+    if (limits.tokensPerMinute > 0 && window.length > 0) {
+      // The oldest requests have to leave the window until this one fits; one over-sized request may go alone
+      let used = window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of window) {
+        if (used + tokens <= limits.tokensPerMinute) break;
+        used -= entry.tokens;
+        waits.push({ wait: entry.time + WINDOW - now, reason: 'budget' });
+      }
+    }
+    return waits.reduce((longest, next) => (next.wait > longest.wait ? next : longest), { wait: 0, reason: 'budget' });
+  };
+
+  const setNotice = (until: number, reason: ThrottleNotice['reason']) => {
+    const current = notices.get(key);
+    if (current && current.until >= until && current.reason === reason) return;
+    notices.set(key, { label, until, reason });
+    publish();
+  };
+
+  const clearNotice = () => {
+    if (waiting > 0 || !notices.has(key)) return;
+    notices.delete(key);
+    publish();
+  };
+
+  return {
+    configure: next => {
+      limits = next;
+    },
+
+    acquire: async (tokens, signal) => {
+      waiting++;
+      try {
+        for (;;) {
+          const now = Date.now();
+          const { wait, reason } = waitFor(tokens, now);
+          if (wait <= 0) break;
+          setNotice(now + wait, reason);
+          await delay(wait, signal);
+        }
+      } finally {
+        waiting--;
+        clearNotice();
+      }
+
+      const entry = { time: Date.now(), tokens };
+      window.push(entry);
+      lastGrant = entry.time;
+      if (serverRequests) serverRequests.remaining--;
+      if (serverTokens) serverTokens.remaining -= tokens;
+      return {
+        settle: actual => {
+          if (actual > 0) entry.tokens = actual;
+        }
+      };
+    },
+
+    observe: headers => {
+      const now = Date.now();
+      serverRequests = readServerLimit(headers, 'requests', now) ?? serverRequests;
+      serverTokens = readServerLimit(headers, 'tokens', now) ?? serverTokens;
+    },
+
+    rateLimited: retryAfter => {
+      strikes++;
+      const wait = Math.min(MAX_RETRY_AFTER, retryAfter ?? DEFAULT_RETRY_AFTER * Math.pow(2, strikes - 1));
+      pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+      spacing = Math.min(MAX_SPACING, Math.max(MIN_SPACING, spacing * 2));
+      setNotice(pausedUntil, 'rate-limited');
+      return wait;
+    },
+
+    succeeded: () => {
+      strikes = 0;
+      clearNotice();
+      spacing = spacing / 2 < MIN_SPACING ? 0 : spacing / 2;
+    }
+  };
+};
+
+const limiters = new Map<string, ReturnType<typeof createRateLimiter>>();
+
+// Short FNV-1a hash of an API key, so limiter keys tell credentials apart without holding them
+const keyFingerprint = (apiKey: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < apiKey.length; i++) {
+    hash ^= apiKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// The limiter of a provider's endpoint and key, with the budgets from its settings. Requests with
+// the same provider, URL and key share it, also when several pages or a retry run at the same time;
+// profiles with their own keys get their own budgets and backoff.
+export const rateLimiterFor = (config: ApiConfig, label: string): RateLimiter => {
+  const key = `${config.provider}\n${config.baseUrl.trim()}\n${keyFingerprint(config.apiKey.trim())}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createRateLimiter(key, label);
+    limiters.set(key, limiter);
+  }
+  limiter.configure(config.rateLimits || NO_RATE_LIMITS);
+  return limiter;
+};
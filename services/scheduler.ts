@@ -0,0 +1,84 @@
+// Small promise-based scheduling helpers used to run page work concurrently.
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 8;
+
+export type Limiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+/**
+ * Returns a function that runs at most `concurrency` tasks at the same time.
+ * Extra tasks wait in FIFO order until a slot frees up.
+ */
+export const createLimiter = (concurrency: number): Limiter => {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    const start = queue.shift()!;
+    start();
+  };
+
+  return <R>(task: () => Promise<R>) => new Promise<R>((resolve, reject) => {
+    queue.push(() => {
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          next();
+        });
+    });
+    next();
+  });
+};
+
+export interface PipelineOptions<T> {
+  concurrency: number;
+  // How many prepared items may wait for a free worker. Defaults to `concurrency`.
+  lookahead?: number;
+  onItemDone?: (item: T) => void;
+}
+
+/**
+ * Two-stage pipeline: `prepare` runs sequentially (e.g. canvas rendering on the main thread)
+ * and stays ahead of `process`, which runs with bounded concurrency. Items finish in any order.
+ */
+export const runPipeline = async <T, P>(
+  items: T[],
+  prepare: (item: T) => Promise<P>,
+  process: (item: T, prepared: P) => Promise<void>,
+  options: PipelineOptions<T>
+): Promise<void> => {
+  const limiter = createLimiter(options.concurrency);
+  const maxBuffered = Math.max(1, Math.floor(options.concurrency) || 1) + (options.lookahead ?? options.concurrency);
+  const inFlight = new Set<Promise<void>>();
+  let firstError: unknown = null;
+
+  try {
+    for (const item of items) {
+      // Backpressure: don't prepare too far ahead of the workers
+      while (inFlight.size >= maxBuffered) {
+        await Promise.race(inFlight);
+      }
+      if (firstError) break;
+
+      const prepared = await prepare(item);
+      const task: Promise<void> = limiter(() => process(item, prepared))
+        .then(() => options.onItemDone?.(item))
+        .catch(error => {
+          if (!firstError) firstError = error;
+        })
+        .finally(() => {
+          inFlight.delete(task);
+        });
+      inFlight.add(task);
+    }
+  } finally {
+    // Let running workers settle even if a prepare step failed
+    await Promise.all(inFlight);
+  }
+
+  if (firstError) throw firstError;
+};
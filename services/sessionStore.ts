@@ -0,0 +1,191 @@
+import { ApiConfig, TranslatedPage, TranslationSession } from "../types";
+
+// IndexedDB persistence for translation sessions.
+// Stores: 'sessions' (summary per job), 'pages' (one TranslatedPage per record) and 'files' (the PDF bytes,
+// shared by fingerprint so an unfinished job can be continued without re-uploading).
+// The 'cache' store belongs to services/translationCache.
+
+const DB_NAME = 'pdf_translate_pro';
+const DB_VERSION = 2;
+const RECENT_LIMIT = 6;
+
+interface StoredPage extends TranslatedPage {
+  sessionId: string;
+}
+
+interface StoredFile {
+  fingerprint: string;
+  fileName: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('sessions')) {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('pages')) {
+        const pages = db.createObjectStore('pages', { keyPath: ['sessionId', 'pageNumber'] });
+        pages.createIndex('bySession', 'sessionId');
+      }
+      if (!db.objectStoreNames.contains('files')) {
+        db.createObjectStore('files', { keyPath: 'fingerprint' });
+      }
+      // Added in version 2
+      if (!db.objectStoreNames.contains('cache')) {
+        db.createObjectStore('cache', { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const sha256Hex = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const fingerprintFile = async (file: Blob): Promise<string> => {
+  return sha256Hex(await file.arrayBuffer());
+};
+
+export const createSession = async (
+  file: File,
+  fingerprint: string,
+  numPages: number,
+  selectedPages: number,
+  config: ApiConfig
+): Promise<TranslationSession> => {
+  const { apiKey, providerSettings, ...safeConfig } = config;
+  const now = Date.now();
+  const session: TranslationSession = {
+    id: `${fingerprint.slice(0, 16)}-${now}`,
+    fileName: file.name,
+    fingerprint,
+    numPages,
+    selectedPages,
+    completedPages: 0,
+    config: safeConfig,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'files'], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore('sessions').put(session);
+  const storedFile: StoredFile = { fingerprint, fileName: file.name, blob: file };
+  tx.objectStore('files').put(storedFile);
+  await done;
+  return session;
+};
+
+// Writes the changed pages and refreshes the session summary in a single transaction.
+// `selectedPages` changes when skipped pages are translated later from the viewer.
+export const savePages = async (
+  sessionId: string,
+  pages: TranslatedPage[],
+  completedPages: number,
+  selectedPages: number
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'pages'], 'readwrite');
+  const done = transactionDone(tx);
+  const pageStore = tx.objectStore('pages');
+  pages.forEach(page => {
+    const record: StoredPage = { ...page, sessionId };
+    pageStore.put(record);
+  });
+
+  const sessionStore = tx.objectStore('sessions');
+  const session = await requestToPromise<TranslationSession | undefined>(sessionStore.get(sessionId));
+  if (session) {
+    sessionStore.put({ ...session, completedPages, selectedPages, updatedAt: Date.now() });
+  }
+  await done;
+};
+
+export const listSessions = async (): Promise<TranslationSession[]> => {
+  const db = await openDatabase();
+  const sessions = await requestToPromise<TranslationSession[]>(
+    db.transaction('sessions').objectStore('sessions').getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, RECENT_LIMIT);
+};
+
+export const loadSessionPages = async (session: TranslationSession): Promise<TranslatedPage[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<StoredPage[]>(
+    db.transaction('pages').objectStore('pages').index('bySession').getAll(session.id)
+  );
+
+  // Fill gaps for pages that were never saved, and treat interrupted pages as not yet translated
+  const pages: TranslatedPage[] = Array.from({ length: session.numPages }, (_, i) => ({
+    pageNumber: i + 1,
+    originalImage: '',
+    translatedHtml: '',
+    status: 'pending',
+  }));
+  records.forEach(({ sessionId, ...page }) => {
+    const status = page.status === 'translating' ? 'pending' : page.status;
+    pages[page.pageNumber - 1] = { ...page, status };
+  });
+  return pages;
+};
+
+export const loadSessionFile = async (fingerprint: string): Promise<File | null> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredFile | undefined>(
+    db.transaction('files').objectStore('files').get(fingerprint)
+  );
+  return stored ? new File([stored.blob], stored.fileName, { type: 'application/pdf' }) : null;
+};
+
+export const deleteSession = async (session: TranslationSession): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'pages', 'files'], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore('sessions').delete(session.id);
+
+  const pageKeys = await requestToPromise(
+    tx.objectStore('pages').index('bySession').getAllKeys(session.id)
+  );
+  pageKeys.forEach(key => tx.objectStore('pages').delete(key));
+
+  // Only drop the PDF bytes when no other session refers to the same file
+  const sessions = await requestToPromise<TranslationSession[]>(tx.objectStore('sessions').getAll());
+  if (!sessions.some(s => s.id !== session.id && s.fingerprint === session.fingerprint)) {
+    tx.objectStore('files').delete(session.fingerprint);
+  }
+  await done;
+};
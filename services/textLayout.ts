@@ -0,0 +1,286 @@
+import { BlockLine, PageBox, TextBlock } from "../types";
+import { escapeHtml } from "./htmlSanitizer";
+
+// Rebuilds reading order from the positioned runs of a PDF text layer: runs -> lines -> columns
+// -> paragraphs, with headings detected from font size and list items from their markers.
+// Coordinates are PDF user space (y grows upwards), taken from each item's transform.
+
+// The fields of a pdf.js TextItem this module reads
+export interface TextLayoutItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+interface Line {
+  text: string;
+  left: number;
+  right: number;
+  baseline: number;
+  fontSize: number;
+}
+
+const BULLET_MARKER = /^[•●○◦▪▫■□‣⁃∙·\-–—*]\s+/;
+const NUMBER_MARKER = /^\(?(\d{1,3})[.)]\s+/;
+const SENTENCE_END = /[.!?。！？:：;；]["'”’)）]?$/;
+const CJK = /[　-ヿ㐀-鿿가-힯＀-￯]/;
+
+const fontSizeOf = (item: TextLayoutItem) => item.height || Math.hypot(item.transform[2], item.transform[3]) || 1;
+
+// Whether two pieces of text need a space between them when joined
+export const needsSpace = (before: string, after: string) => {
+  if (!before || !after || /\s$/.test(before) || /^\s/.test(after)) return false;
+  return !(CJK.test(before.slice(-1)) && CJK.test(after[0]));
+};
+
+// Groups runs into lines in content-stream order. A line ends at hasEOL, at a change of
+// baseline, when the text jumps backwards, or at a gap too wide to be a word space (a column gutter).
+const buildLines = (items: TextLayoutItem[]): Line[] => {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+
+  const close = () => {
+    if (current && current.text.trim()) {
+      lines.push({ ...current, text: current.text.replace(/\s+/g, ' ').trim() });
+    }
+    current = null;
+  };
+
+  items.forEach(item => {
+    if (item.str) {
+      const fontSize = fontSizeOf(item);
+      const x = item.transform[4];
+      const y = item.transform[5];
+      const line: Line | null = current;
+
+      if (line) {
+        const size = Math.max(line.fontSize, fontSize);
+        const gap = x - line.right;
+        if (Math.abs(y - line.baseline) > size * 0.5 || gap < -size || gap > size * 2.5) {
+          close();
+        } else {
+          line.text += (gap > fontSize * 0.2 && needsSpace(line.text, item.str) ? ' ' : '') + item.str;
+          line.right = Math.max(line.right, x + item.width);
+          line.fontSize = Math.max(line.fontSize, fontSize);
+          if (item.hasEOL) close();
+          return;
+        }
+      }
+      current = { text: item.str, left: x, right: x + item.width, baseline: y, fontSize };
+    }
+    if (item.hasEOL) close();
+  });
+  close();
+
+  return lines;
+};
+
+const top = (line: Line) => line.baseline + line.fontSize;
+
+// Splits lines into horizontal bands at vertical gaps wider than half a line
+const splitRows = (lines: Line[]): Line[][] => {
+  const sorted = [...lines].sort((a, b) => top(b) - top(a));
+  const rows: Line[][] = [];
+  let bottom = Infinity; // Lowest baseline of the current band
+
+  sorted.forEach(line => {
+    if (rows.length > 0 && top(line) >= bottom - line.fontSize * 0.5) {
+      rows[rows.length - 1].push(line);
+      bottom = Math.min(bottom, line.baseline);
+    } else {
+      rows.push([line]);
+      bottom = line.baseline;
+    }
+  });
+
+  return rows;
+};
+
+// Splits lines at the widest vertical gutter no line crosses, or returns null when there is none
+const splitColumns = (lines: Line[]): [Line[], Line[]] | null => {
+  const sorted = [...lines].sort((a, b) => a.left - b.left);
+  const minGutter = Math.min(...lines.map(line => line.fontSize));
+  let reach = sorted[0].right;
+  let best: { at: number; width: number } | null = null;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const width = sorted[i].left - reach;
+    if (width >= minGutter && (!best || width > best.width)) {
+      best = { at: i, width };
+    }
+    reach = Math.max(reach, sorted[i].right);
+  }
+
+  return best ? [sorted.slice(0, best.at), sorted.slice(best.at)] : null;
+};
+
+// Recursive XY-cut: columns are read left to right, and bands within a column top to bottom.
+// Cutting columns first keeps a column together even when its paragraph gaps line up with the
+// neighbour's. A full-width title blocks the gutter, so that region is cut into bands instead and
+// the columns below it are separated on the next level.
+// Returns groups of lines that belong to the same text flow, in reading order.
+const orderRegions = (lines: Line[]): Line[][] => {
+  if (lines.length <= 1) return lines.length ? [lines] : [];
+
+  const columns = splitColumns(lines);
+  if (columns) return columns.flatMap(orderRegions);
+
+  const rows = splitRows(lines);
+  if (rows.length > 1) return rows.flatMap(orderRegions);
+
+  return [[...lines].sort((a, b) => b.baseline - a.baseline || a.left - b.left)];
+};
+
+// Body text size: the size covering the most characters
+const bodyFontSize = (lines: Line[]) => {
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  });
+  let body = 0;
+  let heaviest = -1;
+  weights.forEach((weight, size) => {
+    if (weight > heaviest) {
+      body = size;
+      heaviest = weight;
+    }
+  });
+  return body;
+};
+
+// Converts a rectangle in PDF user space (left, bottom, right, top) to a box on the rendered page
+export type PageBoxConverter = (left: number, bottom: number, right: number, top: number) => PageBox;
+
+// Joins wrapped lines, undoing end-of-line hyphenation. Also returns where each line starts in the text.
+const joinLines = (lines: Line[]) => {
+  let text = '';
+  const starts: number[] = [];
+  lines.forEach(line => {
+    if (text && /[a-zà-ÿ]-$/i.test(text) && /^[a-zà-ÿ]/.test(line.text)) {
+      text = text.slice(0, -1);
+    } else if (needsSpace(text, line.text)) {
+      text += ' ';
+    }
+    starts.push(text.length);
+    text += line.text;
+  });
+  return { text, starts };
+};
+
+const headingLevel = (fontSize: number, body: number, text: string): 1 | 2 | 3 | undefined => {
+  // Long runs of larger text are more likely pull quotes or intros than headings
+  if (!body || text.length > 200 || (SENTENCE_END.test(text) && !/[:：]$/.test(text))) return undefined;
+  const ratio = fontSize / body;
+  if (ratio >= 1.6) return 1;
+  if (ratio >= 1.3) return 2;
+  if (ratio >= 1.15) return 3;
+  return undefined;
+};
+
+const toBlock = (lines: Line[], body: number, toPageBox?: PageBoxConverter): TextBlock => {
+  const { text, starts } = joinLines(lines);
+  const fontSize = Math.max(...lines.map(line => line.fontSize));
+
+  // Line positions, shifted by `offset` when a list marker is cut off the front of the text
+  const lineBoxes = (offset: number): BlockLine[] | undefined => toPageBox && lines.map((line, i) => ({
+    start: Math.max(0, starts[i] - offset),
+    // Descenders reach about a quarter of the font size below the baseline
+    box: toPageBox(line.left, line.baseline - line.fontSize * 0.25, line.right, line.baseline + line.fontSize)
+  }));
+
+  const level = headingLevel(fontSize, body, text);
+  if (level) return { type: 'heading', level, text, lines: lineBoxes(0) };
+
+  const marker = NUMBER_MARKER.exec(text) || BULLET_MARKER.exec(text);
+  if (marker) {
+    return {
+      type: 'list-item',
+      ordered: marker[1] !== undefined,
+      number: marker[1] !== undefined ? Number(marker[1]) : undefined,
+      text: text.slice(marker[0].length),
+      lines: lineBoxes(marker[0].length)
+    };
+  }
+
+  return { type: 'paragraph', text, lines: lineBoxes(0) };
+};
+
+// Splits one text flow into paragraphs at blank space, size changes, list markers and short
+// sentence-ending lines
+const splitParagraphs = (lines: Line[]): Line[][] => {
+  const right = Math.max(...lines.map(line => line.right));
+  const paragraphs: Line[][] = [];
+
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    const startsNew = !previous
+      || previous.baseline - line.baseline > Math.max(previous.fontSize, line.fontSize) * 1.7
+      || Math.abs(previous.fontSize - line.fontSize) > Math.min(previous.fontSize, line.fontSize) * 0.15
+      || BULLET_MARKER.test(line.text)
+      || NUMBER_MARKER.test(line.text)
+      || (SENTENCE_END.test(previous.text) && previous.right < right - line.fontSize * 4);
+
+    if (startsNew) {
+      paragraphs.push([line]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(line);
+    }
+  });
+
+  return paragraphs;
+};
+
+// `toPageBox`, when given, records where each line of a block sits on the page
+export const analyzeTextLayout = (items: TextLayoutItem[], toPageBox?: PageBoxConverter): TextBlock[] => {
+  const lines = buildLines(items);
+  if (lines.length === 0) return [];
+
+  const body = bodyFontSize(lines);
+  return orderRegions(lines)
+    .flatMap(splitParagraphs)
+    .map(paragraph => toBlock(paragraph, body, toPageBox));
+};
+
+// Plain text of the blocks, one paragraph per line
+export const blocksToText = (blocks: TextBlock[]): string => {
+  return blocks.map(block => block.text).join('\n\n');
+};
+
+// Renders blocks as HTML, grouping consecutive list items into lists. `renderContent` returns the
+// inner HTML of each block (e.g. its translation); by default the escaped source text.
+export const renderTextBlocks = (
+  blocks: TextBlock[],
+  renderContent: (block: TextBlock, index: number) => string = block => escapeHtml(block.text)
+): string => {
+  const html: string[] = [];
+  let openList: 'ul' | 'ol' | null = null;
+
+  const closeList = () => {
+    if (openList) html.push(`</${openList}>`);
+    openList = null;
+  };
+
+  blocks.forEach((block, i) => {
+    const text = renderContent(block, i);
+
+    if (block.type !== 'list-item') {
+      closeList();
+      html.push(block.type === 'heading' ? `<h${block.level}>${text}</h${block.level}>` : `<p>${text}</p>`);
+      return;
+    }
+
+    const tag = block.ordered ? 'ol' : 'ul';
+    if (openList !== tag) {
+      closeList();
+      html.push(block.ordered && block.number && block.number !== 1 ? `<ol start="${block.number}">` : `<${tag}>`);
+      openList = tag;
+    }
+    html.push(`<li>${text}</li>`);
+  });
+  closeList();
+
+  return html.join('\n');
+};
@@ -0,0 +1,99 @@
+import { PageBox, TextBlock } from "../types";
+
+// Splits text blocks into sentence segments that fit a request size limit, and packs segments
+// into requests. Segments keep their position so translations can be put back in order and
+// lined up with the source.
+
+export const DEFAULT_SEGMENT_LENGTH = 1500;
+export const MIN_SEGMENT_LENGTH = 200;
+export const MAX_SEGMENT_LENGTH = 5000;
+
+export interface TextSegment {
+  block: number; // Index of the block the segment belongs to
+  start: number; // Offsets in the block's text
+  end: number;
+  text: string;
+}
+
+// Ends of sentences: Latin punctuation followed by a space and a capital or digit, or CJK full stops
+const SENTENCE_END = /[.!?]["'”’)\]]*\s+(?=["'“‘(\[]?[A-Z0-9À-ÖØ-Þ])|[。！？][」』”’)）]*\s*/g;
+
+// Offsets where sentences end in `text`
+const sentenceEnds = (text: string): number[] => {
+  const ends: number[] = [];
+  for (const match of text.matchAll(SENTENCE_END)) {
+    ends.push(match.index! + match[0].length);
+  }
+  ends.push(text.length);
+  return ends;
+};
+
+// Cuts a sentence that is longer than the limit, preferring whitespace and then punctuation
+const cutLong = (text: string, start: number, end: number, limit: number): [number, number][] => {
+  const pieces: [number, number][] = [];
+  while (end - start > limit) {
+    const window = text.slice(start, start + limit);
+    const space = window.lastIndexOf(' ');
+    const comma = Math.max(window.lastIndexOf(','), window.lastIndexOf('，'), window.lastIndexOf('、'));
+    const cut = space > limit / 2 ? space + 1 : comma > limit / 2 ? comma + 1 : limit;
+    pieces.push([start, start + cut]);
+    start += cut;
+  }
+  pieces.push([start, end]);
+  return pieces;
+};
+
+export const splitSegments = (blocks: TextBlock[], limit: number): TextSegment[] => {
+  const segments: TextSegment[] = [];
+
+  blocks.forEach((block, index) => {
+    let start = 0;
+    sentenceEnds(block.text).forEach(end => {
+      cutLong(block.text, start, end, limit).forEach(([from, to]) => {
+        const raw = block.text.slice(from, to);
+        const text = raw.trim();
+        if (text) {
+          const leading = raw.length - raw.trimStart().length;
+          segments.push({ block: index, start: from + leading, end: from + leading + text.length, text });
+        }
+      });
+      start = end;
+    });
+  });
+
+  return segments;
+};
+
+// Separates segments inside one request. DeepL keeps line breaks, so the answer splits the same way.
+export const SEGMENT_SEPARATOR = '\n';
+
+// Groups consecutive segments into requests of at most `limit` characters
+export const packSegments = (segments: TextSegment[], limit: number): TextSegment[][] => {
+  const chunks: TextSegment[][] = [];
+  let size = 0;
+
+  segments.forEach(segment => {
+    const current = chunks[chunks.length - 1];
+    const added = segment.text.length + (current ? SEGMENT_SEPARATOR.length : 0);
+    if (current && size + added <= limit) {
+      current.push(segment);
+      size += added;
+    } else {
+      chunks.push([segment]);
+      size = segment.text.length;
+    }
+  });
+
+  return chunks;
+};
+
+// Boxes of the block lines a segment's text is on
+export const segmentBoxes = (block: TextBlock, segment: TextSegment): PageBox[] => {
+  const lines = block.lines || [];
+  return lines
+    .filter((line, i) => {
+      const lineEnd = i + 1 < lines.length ? lines[i + 1].start : block.text.length;
+      return line.start < segment.end && lineEnd > segment.start;
+    })
+    .map(line => line.box);
+};
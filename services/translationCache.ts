@@ -0,0 +1,76 @@
+import { ProviderResult, TranslationSegment } from "../types";
+import { openDatabase, requestToPromise, transactionDone, sha256Hex } from "./sessionStore";
+
+// Content-addressed cache of page translations, stored in the 'cache' IndexedDB store.
+// The key covers the page content and everything that changes the output for it.
+
+interface CacheEntry {
+  key: string;
+  html: string;
+  segments?: TranslationSegment[];
+  size: number; // Bytes of HTML and segments, for the size display in settings
+  createdAt: number;
+}
+
+export interface CacheKeyParts {
+  content: string; // Rendered page image (data URL) or serialized text blocks
+  provider: string;
+  model: string;
+  sourceLang: string;
+  targetLang: string;
+  promptVersion: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export const buildCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+  const contentHash = await sha256Hex(new TextEncoder().encode(parts.content));
+  return [
+    contentHash,
+    parts.provider,
+    parts.model,
+    parts.sourceLang,
+    parts.targetLang,
+    `v${parts.promptVersion}`
+  ].join('|');
+};
+
+export const getCachedTranslation = async (key: string): Promise<ProviderResult | null> => {
+  const db = await openDatabase();
+  const entry = await requestToPromise<CacheEntry | undefined>(
+    db.transaction('cache').objectStore('cache').get(key)
+  );
+  return entry ? { html: entry.html, segments: entry.segments } : null;
+};
+
+export const putCachedTranslation = async (key: string, { html, segments }: ProviderResult): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('cache', 'readwrite');
+  const done = transactionDone(tx);
+  const size = new Blob([html, segments ? JSON.stringify(segments) : '']).size;
+  const entry: CacheEntry = { key, html, segments, size, createdAt: Date.now() };
+  tx.objectStore('cache').put(entry);
+  await done;
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise<CacheEntry[]>(
+    db.transaction('cache').objectStore('cache').getAll()
+  );
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0)
+  };
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('cache', 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore('cache').clear();
+  await done;
+};
@@ -0,0 +1,114 @@
+import { ApiConfig, PageText, ProviderPageInput } from "../types";
+import { getLanguage, getSourceLanguageName } from "./languages";
+
+// Prompt and output clean-up shared by the vision (image -> HTML) providers.
+
+// Fewer visible characters than this means a scanned page or one with only page furniture
+const MIN_TEXT_LAYER_CHARS = 20;
+// Glyphs some PDFs map to private-use or replacement characters instead of real text
+const GARBLED_CHARS = /[\uFFFD\uE000-\uF8FF\u0000-\u0008\u000E-\u001F]/g;
+
+// The page's text layer if it is worth sending alongside the image, or null to go image-only
+export const usableTextLayer = (pageText: PageText | null): string | null => {
+  const text = pageText?.text.trim() || '';
+  const visible = text.replace(/\s/g, '');
+  if (visible.length < MIN_TEXT_LAYER_CHARS) return null;
+  const garbled = visible.match(GARBLED_CHARS)?.length || 0;
+  return garbled / visible.length > 0.1 ? null : text;
+};
+
+// In hybrid mode the extracted text is the source of truth for the content, the image for the layout
+const textLayerSection = (textLayer: string) => `
+    8. TEXT LAYER (GROUND TRUTH):
+       - The exact text of this page, extracted from the PDF, is given below between <text_layer> tags, in reading order.
+       - Use it as the authoritative source for wording, numbers, names, symbols and footnotes. Where the image is hard to read or disagrees with it, trust the text layer.
+       - Use the image for layout and structure: headings, tables, lists, alignment and what belongs together.
+       - Text visible in the image but missing from the text layer (e.g. inside figures) must still be translated.
+       - Never output the <text_layer> tags or the untranslated text itself.
+
+    <text_layer>
+${textLayer}
+    </text_layer>
+  `;
+
+// In tiling mode each request sees one horizontal strip of the page
+const tileSection = ({ index, count }: NonNullable<ProviderPageInput['tile']>) => `
+    9. PAGE STRIP:
+       - This image is strip ${index + 1} of ${count} of one page, cut horizontally from top to bottom. Translate only what is in this strip; the other strips are translated separately and joined afterwards.
+       ${index > 0
+         ? '- The shaded band at the top overlaps the end of the previous strip, which was already translated. Do not translate it again; use it only as context for text, lists or tables that continue below it.'
+         : '- This is the top of the page.'}
+       - A table that runs past the bottom edge continues in the next strip: output the rows shown here as a normal <table>. A table that starts above this strip continues with the same columns.
+       - Do not add headings, notes or remarks about the strip itself.
+  `;
+
+// A page with a usable text layer switches to hybrid prompting, and a page strip to tile prompting
+export const buildVisionPrompt = (config: ApiConfig, page?: Pick<ProviderPageInput, 'text' | 'tile'>): string => {
+  const targetLanguage = getLanguage(config.targetLang);
+  const textLayer = usableTextLayer(page?.text ?? null);
+  return `
+    You are a professional document translator. 
+    Translate the content of this image from ${getSourceLanguageName(config.sourceLang)} into ${targetLanguage.name}.
+    
+    CRITICAL OUTPUT INSTRUCTIONS:
+    1. Return ONLY valid HTML code. Do not wrap it in markdown code blocks (like \`\`\`html).
+    2. LAYOUT & FORMATTING:
+       - Use semantic HTML tags (<h1>, <p>, <ul>) to replicate the visual structure.
+       - Use inline CSS for alignment (text-align), font-weight, and basic layout.
+    
+    3. TABLES (CRITICAL):
+       - Detect ALL tables in the document.
+       - You MUST reconstruct them using HTML <table>, <tr>, <td>, <th> tags.
+       - Preserve column spans (colspan) and row spans (rowspan) to match the original structure exactly.
+       - Translate all text content inside the tables.
+       - DO NOT replace tables with placeholders.
+    
+    4. IMAGES & CHARTS:
+       - If the image is a Chart, Graph, or Diagram containing data: Convert the visual data into an HTML Table representation so the data is preserved.
+       - If the image is a diagram with text: Extract the text and structure it using <div> or lists to preserve the meaning.
+       - If the image is a purely decorative photo: Insert a placeholder <div class="image-placeholder">[${targetLanguage.imageLabel}: Description]</div>.
+       
+    5. TRANSLATION:
+       - Translate ALL text content into ${targetLanguage.name}. 
+       - Ensure the tone is professional.
+       
+    6. RESTRICTIONS:
+       - DO NOT use Markdown.
+       - DO NOT use LaTeX or MathJax (e.g. no $...$ or \[...\]). Use HTML entities for math symbols (e.g. &sum;, &alpha;).
+       - DO NOT escape HTML tags (e.g. output <sup>17</sup>, NOT &lt;sup&gt;17&lt;/sup&gt;).
+       - DO NOT generate <img src="..."> tags.
+       - DO NOT output \`\`\`html or \`\`\`.
+    
+    7. Do not include <html>, <head>, or <body> tags. Start directly with the content elements.
+  ${textLayer ? textLayerSection(textLayer) : ''}${page?.tile ? tileSection(page.tile) : ''}`;
+};
+
+// Sent after an answer that stopped at the output limit, with that answer as the previous turn
+export const CONTINUATION_PROMPT = `
+    Your previous answer was cut off because it reached the output limit.
+    Continue the HTML exactly where it stopped, in the middle of a word or tag if necessary.
+    - Do not repeat anything you already wrote and do not start the page over.
+    - Do not reopen elements that are already open: if it stopped inside a table, continue the current row and keep the same columns.
+    - Output only the continuation: no explanations, no markdown, no \`\`\`html.
+  `;
+
+// Streamed output as far as it can be shown: without the opening code fence, a tag that is still
+// being written, or the start of a closing fence. Unclosed elements are closed by the sanitizer.
+export const previewModelHtml = (text: string): string => {
+  return text
+    .replace(/^\s*```(?:html)?\s*/i, '')
+    .replace(/<[^>]*$/, '')
+    .replace(/&[#\w]*$/, '')
+    .replace(/`{1,3}\s*$/, '');
+};
+
+export const cleanModelHtml = (text: string): string => {
+  // Cleanup if the model ignores instructions and adds markdown blocks
+  const html = text.replace(/^```html\s*/i, '').replace(/^```\s*/i, '').replace(/```\s*$/i, '').trim();
+
+  // Unescape common formatting tags that might have been escaped by the model,
+  // so users don't see <sup> tags as literal text
+  return html
+    .replace(/&lt;(sup|sub|b|i|strong|em)&gt;/gi, '<$1>')
+    .replace(/&lt;\/(sup|sub|b|i|strong|em)&gt;/gi, '</$1>');
+};
@@ -0,0 +1,99 @@
+import { ApiConfig, ModelUsage, PageUsage, TranslatedPage, TranslationStats, UsageMeter } from "../types";
+import { getProvider } from "./providers";
+import { tokenCost } from "./costEstimate";
+
+// Usage accounting: providers count requests and tokens on a meter while they translate a page,
+// the result is priced per page, and pages are summed up into the job report.
+
+export const createUsageMeter = (): UsageMeter => ({ requests: 0, retries: 0, inputTokens: 0, outputTokens: 0 });
+
+export const pageUsage = (meter: UsageMeter, latency: number, config: ApiConfig): PageUsage => {
+  const provider = getProvider(config.provider);
+  return {
+    provider: provider.id,
+    model: provider.capabilities.usesModel ? config.modelName : '',
+    ...meter,
+    latency,
+    cost: tokenCost(meter.inputTokens, meter.outputTokens, config)
+  };
+};
+
+// Sum of costs that stays unknown (null) once any part is unknown
+const addCost = (total: number | null, cost: number | null) => (total === null || cost === null ? null : total + cost);
+
+// Usage of a page translated in several attempts, e.g. on fallback profiles: everything is summed
+// and the page is attributed to the provider and model of the last attempt
+export const combineUsage = (earlier: PageUsage | undefined, last: PageUsage): PageUsage => {
+  if (!earlier) return last;
+  return {
+    ...last,
+    inputTokens: earlier.inputTokens + last.inputTokens,
+    outputTokens: earlier.outputTokens + last.outputTokens,
+    requests: earlier.requests + last.requests,
+    retries: earlier.retries + last.retries,
+    latency: earlier.latency + last.latency,
+    cost: addCost(earlier.cost, last.cost)
+  };
+};
+
+// Totals over the pages a job translated. Cached pages count as completed and cost nothing, unless
+// failed attempts on other profiles came before the cache hit.
+export const computeStats = (pages: TranslatedPage[], totalTime: number): TranslationStats => {
+  const models = new Map<string, ModelUsage>();
+  let latency = 0;
+  let translated = 0;
+
+  pages.forEach(page => {
+    const usage = page.usage;
+    if (!usage) return;
+    translated++;
+    latency += usage.latency;
+
+    const key = `${usage.provider}\n${usage.model}`;
+    const entry = models.get(key) || {
+      provider: usage.provider, model: usage.model, pages: 0, inputTokens: 0, outputTokens: 0, requests: 0, retries: 0, cost: 0
+    };
+    entry.pages++;
+    entry.inputTokens += usage.inputTokens;
+    entry.outputTokens += usage.outputTokens;
+    entry.requests += usage.requests;
+    entry.retries += usage.retries;
+    entry.cost = addCost(entry.cost, usage.cost);
+    models.set(key, entry);
+  });
+
+  const byModel = Array.from(models.values());
+  const sum = (field: 'inputTokens' | 'outputTokens' | 'requests' | 'retries') => byModel.reduce((total, entry) => total + entry[field], 0);
+
+  return {
+    totalTime,
+    totalPages: pages.length,
+    completedPages: pages.filter(page => page.status === 'completed').length,
+    failedPages: pages.filter(page => page.status === 'error').length,
+    cachedPages: pages.filter(page => page.status === 'completed' && page.fromCache).length,
+    incompletePages: pages.filter(page => page.status === 'completed' && page.incomplete).length,
+    inputTokens: sum('inputTokens'),
+    outputTokens: sum('outputTokens'),
+    requests: sum('requests'),
+    retries: sum('retries'),
+    averageLatency: translated ? latency / translated : 0,
+    cost: byModel.reduce<number | null>((total, entry) => addCost(total, entry.cost), 0),
+    models: byModel
+  };
+};
+
+// Time left for the remaining pages at the pace of the job so far, in milliseconds.
+// Null until a page has finished, since rendering and the first requests skew the start.
+export const estimateRemaining = (elapsed: number, done: number, total: number): number | null => {
+  if (done === 0 || done >= total) return null;
+  return (elapsed / done) * (total - done);
+};
+
+// "45s", "3m 20s", "1h 05m"
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
@@ -1,6 +1,7 @@
 export enum AppState {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
+  SELECTING = 'SELECTING', // Loaded PDF, choosing pages to translate
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
@@ -9,20 +10,275 @@ export interface TranslatedPage {
   pageNumber: number;
   originalImage: string; // Base64
   translatedHtml: string; // HTML string from Gemini/DeepLX
-  status: 'pending' | 'translating' | 'completed' | 'error';
+  status: 'pending' | 'translating' | 'completed' | 'error' | 'cancelled' | 'skipped'; // skipped: not selected for translation
   errorMessage?: string;
+  fromCache?: boolean; // Served from the local translation cache instead of the provider
+  incomplete?: boolean; // The model's output was cut off and could not be completed
+  usage?: PageUsage; // Tokens, requests and cost of the last translation of this page
+  segments?: TranslationSegment[]; // Sentence alignment, from providers that translate sentence by sentence
+  partialHtml?: string; // While translating with streaming: the output received so far
+  route?: PageRoute; // In auto routing mode: which pipeline translated the page, and why
+  tileCount?: number; // Tiling mode: how many strips the page was split into
+  profile?: string; // Name of the settings profile that translated the page (a fallback if the first one failed)
 }
 
-export interface TranslationStats {
-  totalTime: number;
-  totalPages: number;
+// Text and image content of a page, measured to pick a pipeline in auto routing mode
+export interface PageProfile {
+  width: number; // Page size in PDF points
+  height: number;
+  charCount: number; // Non-whitespace characters in the text layer
+  textCoverage: number; // Share of the page area covered by text runs (0-1)
+  imageCoverage: number; // Share of the page area covered by raster images (0-1)
+}
+
+export interface PageRoute {
+  pipeline: 'text' | 'vision';
+  provider: ApiProvider;
+  reason: string;
+}
+
+// A rectangle on the rendered page, in fractions of its width and height from the top-left corner
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A source sentence and its translation. The index in TranslatedPage.segments matches the
+// data-segment attribute on the translated HTML.
+export interface TranslationSegment {
+  source: string;
+  target: string;
+  boxes: PageBox[]; // Lines of the original page the source sentence is on
 }
 
-export type ApiProvider = 'openai' | 'deeplx';
+// What translating one page cost: filled in by the provider through a UsageMeter, then priced
+export interface PageUsage {
+  provider: ApiProvider;
+  model: string; // Empty for providers without a model
+  inputTokens: number;
+  outputTokens: number;
+  requests: number; // HTTP requests, including retries and continuations
+  retries: number;
+  latency: number; // Milliseconds from the first request to the result
+  cost: number | null; // USD; null when the model's price is unknown
+}
+
+// Running totals a provider adds to while it translates a page
+export interface UsageMeter {
+  requests: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+}
 
-export interface ApiConfig {
+// Usage of one provider and model within a job
+export interface ModelUsage {
   provider: ApiProvider;
+  model: string;
+  pages: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+  retries: number;
+  cost: number | null; // null when any page's price is unknown
+}
+
+// Summary of a finished job, shown in the job report
+export interface TranslationStats {
+  totalTime: number; // Milliseconds from start to finish of the job
+  totalPages: number; // Pages the job was asked to translate
+  completedPages: number;
+  failedPages: number;
+  cachedPages: number; // Served from the translation cache, at no cost
+  incompletePages: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+  retries: number;
+  averageLatency: number; // Milliseconds per page translated by a provider
+  cost: number | null; // USD; null when some page's price is unknown
+  models: ModelUsage[];
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ApiProvider = 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'deeplx';
+
+// 'single' sends every page to the active provider; 'auto' picks the text or vision provider per page
+export type RoutingMode = 'single' | 'auto';
+
+// How pages are rendered for a provider. Vision models read small print better at higher
+// resolution, at the cost of larger requests.
+export interface RenderSettings {
+  maxDimension: number; // Longest side of the page image, in pixels
+  imageQuality: number; // JPEG quality, 0-1
+  tiling: 'off' | 'auto'; // 'auto' splits dense or large pages into overlapping horizontal strips
+}
+
+// Client-side request budgets of a provider's endpoint; 0 means no limit
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// Requests to an endpoint are being held back: by the configured budget, the limits the server
+// reported in its headers, or after the server answered 429
+export interface ThrottleNotice {
+  label: string; // Provider name
+  until: number; // Timestamp the wait is expected to end
+  reason: 'budget' | 'server-limit' | 'rate-limited';
+}
+
+// Connection and rendering settings of a provider. The active provider's live on ApiConfig itself.
+export interface ProviderSettings {
   baseUrl: string;
   apiKey: string;
-  modelName: string; // Used for OpenAI
-}
\ No newline at end of file
+  modelName: string;
+  render: RenderSettings;
+  rateLimits: RateLimits;
+}
+
+export interface ApiConfig extends ProviderSettings {
+  provider: ApiProvider;
+  // Settings of the other providers, kept so switching back and forth doesn't lose them
+  providerSettings?: Partial<Record<ApiProvider, ProviderSettings>>;
+  sourceLang: string; // Language code from services/languages, or 'auto'
+  targetLang: string;
+  concurrency: number; // How many pages are translated in parallel
+  cacheEnabled: boolean; // Reuse earlier translations of identical pages
+  segmentLength: number; // Max characters per request for text-mode providers
+  hybridText: boolean; // Vision providers also get the PDF text layer, as ground truth for the content
+  streamOutput: boolean; // Show the translation while it is generated, for providers that can stream
+  routingMode: RoutingMode;
+  textProvider: ApiProvider; // Auto routing: pages with a good text layer
+  visionProvider: ApiProvider; // Auto routing: scanned, image-heavy and sparse pages
+  // Prices that override the built-in list prices, by lower-case model name
+  modelPrices: Record<string, ModelPrice>;
+}
+
+// A named set of settings, e.g. a company gateway, a personal key or a local DeepLX
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  config: ApiConfig;
+  // Profiles that retry a page which failed for good on this one, in order
+  fallbackIds: string[];
+}
+
+export interface ProfileStore {
+  activeId: string;
+  profiles: ConfigProfile[];
+}
+
+export interface ProviderResult {
+  html: string;
+  segments?: TranslationSegment[];
+  incomplete?: boolean; // The output still looks cut off after continuing it
+}
+
+export interface TranslationResult extends ProviderResult {
+  fromCache: boolean;
+}
+
+// What a provider reads from each page: the rendered image, the PDF text layer, or both
+export type ProviderInput = 'image' | 'text' | 'image+text';
+
+// One line of a text block: where it starts in the block's text and where it is on the page
+export interface BlockLine {
+  start: number;
+  box: PageBox;
+}
+
+// A paragraph-level piece of the PDF text layer, in reading order (see services/textLayout)
+export interface TextBlock {
+  type: 'heading' | 'paragraph' | 'list-item';
+  text: string;
+  level?: 1 | 2 | 3; // Headings: derived from font size relative to the body text
+  ordered?: boolean; // List items: numbered rather than bulleted
+  number?: number; // Ordered list items: the number printed in the PDF
+  lines?: BlockLine[];
+}
+
+// The text layer of a page, as plain text and as structured blocks
+export interface PageText {
+  text: string;
+  blocks: TextBlock[];
+}
+
+// One strip of a tiled page. `top` and `bottom` bound the strip's own part of the page (fractions
+// of the page height); the image also includes a shaded overlap with the strip above.
+export interface PageTile {
+  image: string;
+  index: number;
+  count: number;
+  top: number;
+  bottom: number;
+}
+
+export interface ProviderPageInput {
+  image: string; // Data URL of the rendered page, or of one strip in tiling mode
+  text: PageText | null; // Extracted text layer, when the provider's input includes text
+  tile?: Omit<PageTile, 'image'>; // Set when `image` is a strip of the page
+}
+
+// One input in the generated settings form
+export interface ProviderField {
+  key: 'baseUrl' | 'apiKey' | 'modelName';
+  label: string;
+  type: 'text' | 'password';
+  icon: 'server' | 'key' | 'model';
+  placeholder?: string;
+  help?: string;
+  required?: boolean;
+}
+
+export interface ProviderCapabilities {
+  preservesLayout: boolean; // Reproduces headings, tables and layout as HTML
+  usesModel: boolean; // Output depends on the model name (part of the cache key)
+  streaming: boolean; // Can report its output while it is generated
+}
+
+// Receives the raw model output received so far, each time more of a streamed answer arrives
+export type PartialOutputHandler = (text: string) => void;
+
+export interface TranslateOptions {
+  signal?: AbortSignal;
+  onPartial?: PartialOutputHandler; // Streams the answer when given and the provider supports it
+  meter?: UsageMeter; // Counts the requests, retries and tokens spent on the page
+}
+
+export interface TranslationProvider {
+  id: ApiProvider;
+  name: string; // Short name for labels, e.g. "OpenAI"
+  tagline: string; // Shown on the upload screen
+  accent: 'blue' | 'purple';
+  input: ProviderInput;
+  capabilities: ProviderCapabilities;
+  defaults: ProviderSettings;
+  fields: ProviderField[];
+  notice?: string; // Caveat shown above the settings fields
+  // Checks beyond the required fields. Returns what is wrong, or null when the config is usable
+  validate?: (config: ApiConfig) => string | null;
+  translate: (page: ProviderPageInput, config: ApiConfig, options?: TranslateOptions) => Promise<ProviderResult>;
+}
+
+
+// A translation job persisted in IndexedDB so it survives reloads
+export interface TranslationSession {
+  id: string;
+  fileName: string;
+  fingerprint: string; // SHA-256 of the PDF bytes
+  numPages: number;
+  // Pages chosen for translation, i.e. not skipped. Missing in sessions saved before page selection existed.
+  selectedPages?: number;
+  completedPages: number;
+  config: Omit<ApiConfig, 'apiKey' | 'providerSettings'>; // Settings used for the job (credentials are never stored)
+  createdAt: number;
+  updatedAt: number;
+}